@@ -0,0 +1,153 @@
+#!/usr/bin/env node
+/**
+ * Blocklist Matcher Benchmark
+ *
+ * Compares the previous linear scans with the suffix trie (domains) and the
+ * Aho-Corasick matcher (keywords and URLs) used by BlacklistManager.
+ * Uses blocklists/compiled/blacklist.yaml when present, otherwise a generated list.
+ * With blacklist.bin alongside it, also compares YAML and binary index load times.
+ *
+ * Run with: npm run benchmark-blocklist
+ */
+
+const fs = require('fs');
+const path = require('path');
+const yaml = require('js-yaml');
+const { DomainTrie, PatternMatcher } = require('../dist/main/blocklistMatcher');
+const { readBlocklistIndex } = require('../dist/main/blocklistIndex');
+
+const CONFIG = {
+  compiledFile: path.join(__dirname, '..', 'blocklists', 'compiled', 'blacklist.yaml'),
+  indexFile: path.join(__dirname, '..', 'blocklists', 'compiled', 'blacklist.bin'),
+  generatedDomains: 200000,
+  generatedKeywords: 200,
+  generatedUrls: 2000,
+  lookups: 20000,
+  // The linear scan is slow enough that a sample is plenty
+  linearLookups: 200,
+};
+
+function loadLists() {
+  if (fs.existsSync(CONFIG.compiledFile)) {
+    const config = yaml.load(fs.readFileSync(CONFIG.compiledFile, 'utf8'));
+    console.log(`Using ${CONFIG.compiledFile}`);
+    const grouped = (config.categorized_sites || []).flatMap((group) => group.sites || []);
+    return {
+      domains: [...(config.blocked_sites || []), ...grouped].map((d) => d.toLowerCase()),
+      keywords: (config.blocked_keywords || []).map((k) => k.toLowerCase()),
+      urls: (config.blocked_urls || []).map((u) => u.toLowerCase()),
+    };
+  }
+
+  console.log('No compiled blocklist found, using a generated list');
+  const tlds = ['com', 'net', 'org', 'info', 'xyz', 'co.uk'];
+  const domains = [];
+  for (let i = 0; i < CONFIG.generatedDomains; i++) {
+    domains.push(`site${i.toString(36)}.${tlds[i % tlds.length]}`);
+  }
+  const keywords = [];
+  for (let i = 0; i < CONFIG.generatedKeywords; i++) {
+    keywords.push(`keyword${i.toString(36)}x`);
+  }
+  const urls = [];
+  for (let i = 0; i < CONFIG.generatedUrls; i++) {
+    urls.push(`example${i}.org/bad/path${i}`);
+  }
+  return { domains, keywords, urls };
+}
+
+function buildLookups(domains) {
+  // Mostly clean hostnames, with some exact and subdomain hits mixed in
+  const hosts = [];
+  for (let i = 0; i < CONFIG.lookups; i++) {
+    if (i % 10 === 0 && domains.length > 0) {
+      hosts.push(domains[(i * 7919) % domains.length]);
+    } else if (i % 10 === 1 && domains.length > 0) {
+      hosts.push(`cdn.static.${domains[(i * 104729) % domains.length]}`);
+    } else {
+      hosts.push(`www.clean-site-${i}.example.com`);
+    }
+  }
+  return hosts;
+}
+
+function time(label, count, fn) {
+  const start = process.hrtime.bigint();
+  let hits = 0;
+  for (let i = 0; i < count; i++) {
+    if (fn(i)) hits++;
+  }
+  const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+  const perLookupUs = (elapsedMs * 1000) / count;
+  console.log(`  ${label.padEnd(28)} ${perLookupUs.toFixed(2).padStart(12)} µs/lookup  (${hits}/${count} matched)`);
+  return perLookupUs;
+}
+
+// Startup cost of the YAML (parse + trie build) against the binary index
+function benchmarkLoad() {
+  if (!fs.existsSync(CONFIG.compiledFile) || !fs.existsSync(CONFIG.indexFile)) return;
+
+  let start = Date.now();
+  const config = yaml.load(fs.readFileSync(CONFIG.compiledFile, 'utf8'));
+  const trie = new DomainTrie();
+  for (const group of config.categorized_sites || []) {
+    for (const site of group.sites || []) trie.add(site, group.categories || []);
+  }
+  const yamlMs = Date.now() - start;
+
+  start = Date.now();
+  const index = readBlocklistIndex(fs.readFileSync(CONFIG.indexFile));
+  const indexMs = Date.now() - start;
+
+  console.log('Load');
+  console.log(`  YAML + DomainTrie ${yamlMs} ms (${trie.size} domains), binary index ${indexMs} ms (${index.domains.size} domains)\n`);
+}
+
+function main() {
+  const { domains, keywords, urls } = loadLists();
+  console.log(`Lists: ${domains.length} domains, ${keywords.length} keywords, ${urls.length} URLs\n`);
+
+  benchmarkLoad();
+
+  let start = Date.now();
+  const domainSet = new Set(domains);
+  const setBuildMs = Date.now() - start;
+
+  start = Date.now();
+  const trie = new DomainTrie(domains);
+  const trieBuildMs = Date.now() - start;
+
+  start = Date.now();
+  const keywordMatcher = new PatternMatcher(keywords);
+  const urlMatcher = new PatternMatcher(urls);
+  const patternBuildMs = Date.now() - start;
+
+  console.log(`Build: Set ${setBuildMs} ms, DomainTrie ${trieBuildMs} ms, PatternMatcher ${patternBuildMs} ms\n`);
+
+  const hosts = buildLookups(domains);
+  const fullUrls = hosts.map((host, i) => `https://${host}/articles/${i}?ref=home`);
+
+  console.log('Domain lookups');
+  const linearDomain = time('Set + linear subdomain scan', CONFIG.linearLookups, (i) => {
+    const host = hosts[i];
+    if (domainSet.has(host)) return true;
+    for (const blocked of domainSet) {
+      if (host.endsWith('.' + blocked)) return true;
+    }
+    return false;
+  });
+  const trieDomain = time('DomainTrie.match', CONFIG.lookups, (i) => trie.match(hosts[i]) !== null);
+  console.log(`  Speed-up: ${(linearDomain / trieDomain).toFixed(0)}x\n`);
+
+  console.log('Keyword + URL lookups');
+  const patterns = [...urls, ...keywords];
+  const linearPattern = time('Array.includes scan', CONFIG.linearLookups, (i) =>
+    patterns.some((pattern) => fullUrls[i].includes(pattern))
+  );
+  const acPattern = time('PatternMatcher.find', CONFIG.lookups, (i) =>
+    urlMatcher.find(fullUrls[i]) !== null || keywordMatcher.find(fullUrls[i]) !== null
+  );
+  console.log(`  Speed-up: ${(linearPattern / acPattern).toFixed(1)}x`);
+}
+
+main();
@@ -0,0 +1,137 @@
+#!/usr/bin/env node
+/**
+ * Blocklist Delta Builder
+ *
+ * Produces the signed incremental updates browsers download between releases
+ * (see src/main/blocklistUpdater.ts for the format).
+ *
+ * Create a signing key (prints the entry for resources/blocklist-update-keys.json):
+ *   npm run make-blocklist-delta -- --generate-key blocklist-key.pem --key-id jubilee-blocklist-1
+ *
+ * Build the delta between two compiled lists:
+ *   npm run make-blocklist-delta -- --from old/blacklist.yaml --to blocklists/compiled/blacklist.yaml \
+ *     --key blocklist-key.pem --key-id jubilee-blocklist-1 --out blocklists/updates
+ *
+ * The delta is written to <out>/deltas/<fromVersion>.json. Serve <out> from any
+ * static file server (e.g. `npx http-server blocklists/updates -p 8080`) and set
+ * Safe Browsing -> Update server to http://localhost:8080 to test locally.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const yaml = require('js-yaml');
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+}
+
+// Must match canonicalJson in src/main/inspireRegistrations.ts
+function canonicalJson(value) {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Domain -> sorted categories, from a compiled blacklist.yaml
+function loadDomains(file) {
+  const config = yaml.load(fs.readFileSync(file, 'utf8'));
+  const version = config.metadata && config.metadata.version;
+  if (typeof version !== 'number') {
+    throw new Error(`${file} has no metadata.version; recompile it with npm run update-blocklist`);
+  }
+
+  const domains = new Map();
+  for (const site of config.blocked_sites || []) {
+    domains.set(site.toLowerCase(), []);
+  }
+  for (const group of config.categorized_sites || []) {
+    for (const site of group.sites || []) {
+      domains.set(site.toLowerCase(), (group.categories || []).slice().sort());
+    }
+  }
+  return { version, domains };
+}
+
+function generateKey(keyFile, keyId) {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  fs.writeFileSync(keyFile, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+  console.log(`Private key written to ${keyFile} (keep it out of the repository)`);
+  console.log('Add this entry to resources/blocklist-update-keys.json:');
+  console.log(JSON.stringify({ keyId, publicKey: publicKey.export({ type: 'spki', format: 'pem' }) }, null, 2));
+}
+
+function buildDelta(args) {
+  const from = loadDomains(args.from);
+  const to = loadDomains(args.to);
+  if (to.version <= from.version) {
+    throw new Error(`--to version ${to.version} must be newer than --from version ${from.version}`);
+  }
+
+  const added = [];
+  for (const [domain, categories] of to.domains) {
+    const previous = from.domains.get(domain);
+    if (!previous || previous.join(',') !== categories.join(',')) {
+      added.push({ domain, categories });
+    }
+  }
+  const removed = Array.from(from.domains.keys()).filter(domain => !to.domains.has(domain));
+
+  const payload = {
+    fromVersion: from.version,
+    toVersion: to.version,
+    generatedAt: new Date().toISOString(),
+    added,
+    removed
+  };
+
+  const privateKey = crypto.createPrivateKey(fs.readFileSync(args.key, 'utf8'));
+  // Ed25519/Ed448 sign the message directly; RSA and ECDSA keys sign a SHA-256 digest
+  const algorithm = privateKey.asymmetricKeyType.startsWith('ed') ? null : 'sha256';
+  const signature = crypto.sign(algorithm, Buffer.from(canonicalJson(payload), 'utf-8'), privateKey);
+
+  const outDir = path.join(args.out, 'deltas');
+  fs.mkdirSync(outDir, { recursive: true });
+  const outFile = path.join(outDir, `${from.version}.json`);
+  fs.writeFileSync(outFile, JSON.stringify({ payload, keyId: args['key-id'], signature: signature.toString('base64') }));
+
+  console.log(`Delta ${from.version} -> ${to.version}: +${added.length} / -${removed.length} domains`);
+  console.log(`Written to ${outFile}`);
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args['generate-key']) {
+    generateKey(args['generate-key'], args['key-id'] || 'jubilee-blocklist-1');
+    return;
+  }
+
+  if (!args.from || !args.to || !args.key || !args['key-id'] || !args.out) {
+    console.error('Usage: make-blocklist-delta.js --from <old.yaml> --to <new.yaml> --key <private.pem> --key-id <id> --out <dir>');
+    process.exit(1);
+  }
+  buildDelta(args);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('Error:', error.message);
+  process.exit(1);
+}
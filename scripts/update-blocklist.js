@@ -11,12 +11,16 @@ const http = require('http');
 const fs = require('fs');
 const path = require('path');
 const zlib = require('zlib');
+const crypto = require('crypto');
 
 // Configuration
 const CONFIG = {
   outputDir: path.join(__dirname, '..', 'blocklists', 'compiled'),
   rawDir: path.join(__dirname, '..', 'blocklists', 'raw'),
   outputFile: 'blacklist.yaml',
+  // Compact index loaded by BlacklistManager at startup (see src/main/blocklistIndex.ts)
+  indexFile: 'blacklist.bin',
+  indexVersion: 1,
 
   // Source feeds with metadata
   sources: [
@@ -64,7 +68,33 @@ const CONFIG = {
       categories: ['ads', 'trackers', 'malware'],
       license: 'Non-commercial',
       enabled: true
+    },
+    {
+      id: 'easylist',
+      name: 'EasyList',
+      url: 'https://easylist.to/easylist/easylist.txt',
+      format: 'adblock',
+      categories: ['ads'],
+      license: 'GPLv3 / CC BY-SA 3.0',
+      enabled: true
+    },
+    {
+      id: 'easyprivacy',
+      name: 'EasyPrivacy',
+      url: 'https://easylist.to/easylist/easyprivacy.txt',
+      format: 'adblock',
+      categories: ['trackers'],
+      license: 'GPLv3 / CC BY-SA 3.0',
+      enabled: true
     }
+  ],
+
+  // Network filter options understood by src/main/networkFilterEngine.ts;
+  // filters using any other option are dropped at compile time
+  supportedFilterOptions: [
+    'third-party', '3p', 'first-party', '1p', 'match-case', 'xhr',
+    'script', 'image', 'stylesheet', 'object', 'xmlhttprequest', 'subdocument',
+    'font', 'media', 'websocket', 'ping', 'other', 'document'
   ]
 };
 
@@ -189,6 +219,42 @@ function parseDomainList(content) {
   return domains;
 }
 
+// Parse Adblock Plus / uBlock filter list, keeping supported network filters only
+function parseAdblockFilters(content) {
+  const filters = new Set();
+  const lines = content.split('\n');
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+
+    // Skip comments, headers, cosmetic and scriptlet filters
+    if (!trimmed || trimmed.startsWith('!') || trimmed.startsWith('[')) continue;
+    if (/#[@?$%]?#|#\+js\(/.test(trimmed)) continue;
+
+    const body = trimmed.replace(/^@@/, '');
+
+    // Regular expression filters are not supported
+    if (/^\/.*\/(\$|$)/.test(body)) continue;
+
+    const optionsIndex = body.lastIndexOf('$');
+    if (optionsIndex > 0 && !body.slice(optionsIndex).includes('/')) {
+      const options = body.slice(optionsIndex + 1).toLowerCase().split(',');
+      const supported = options.every(option => {
+        const name = option.replace(/^~/, '');
+        return CONFIG.supportedFilterOptions.includes(name) || option.startsWith('domain=');
+      });
+      if (!supported) continue;
+    }
+
+    const pattern = optionsIndex > 0 ? body.slice(0, optionsIndex) : body;
+    if (!pattern || pattern === '*' || pattern === '|' || pattern === '||') continue;
+
+    filters.add(trimmed);
+  }
+
+  return Array.from(filters);
+}
+
 // Normalize domain
 function normalizeDomain(domain) {
   if (!domain) return null;
@@ -246,7 +312,8 @@ async function processSource(source) {
     fs.writeFileSync(rawPath, content);
 
     // Parse based on format
-    let domains;
+    let domains = new Set();
+    let filters = [];
     switch (source.format) {
       case 'hosts':
         domains = parseHostsFile(content);
@@ -254,11 +321,18 @@ async function processSource(source) {
       case 'domains':
         domains = parseDomainList(content);
         break;
+      case 'adblock':
+        filters = parseAdblockFilters(content);
+        break;
       default:
         throw new Error(`Unknown format: ${source.format}`);
     }
 
-    console.log(`[${source.id}] Fetched in ${fetchTime}ms, parsed ${domains.size} domains`);
+    if (source.format === 'adblock') {
+      console.log(`[${source.id}] Fetched in ${fetchTime}ms, kept ${filters.length} network filters`);
+    } else {
+      console.log(`[${source.id}] Fetched in ${fetchTime}ms, parsed ${domains.size} domains`);
+    }
 
     return {
       id: source.id,
@@ -266,8 +340,11 @@ async function processSource(source) {
       categories: source.categories,
       license: source.license,
       fetchedAt: new Date().toISOString(),
+      hash: crypto.createHash('sha256').update(content).digest('hex'),
       domainCount: domains.size,
-      domains: domains
+      domains: domains,
+      filterCount: filters.length,
+      filters: filters
     };
   } catch (error) {
     console.error(`[${source.id}] Error: ${error.message}`);
@@ -275,7 +352,8 @@ async function processSource(source) {
       id: source.id,
       name: source.name,
       error: error.message,
-      domains: new Set()
+      domains: new Set(),
+      filters: []
     };
   }
 }
@@ -314,6 +392,8 @@ function compileBlocklist(results) {
 
   // Generate YAML content
   const generatedAt = new Date().toISOString();
+  // Browsers ask the update endpoint for deltas from this version (Unix seconds unless set)
+  const version = Number(process.env.BLOCKLIST_VERSION) || Math.floor(Date.now() / 1000);
 
   let yaml = `# Jubilee Browser Compiled Blocklist
 # Generated: ${generatedAt}
@@ -329,13 +409,15 @@ function compileBlocklist(results) {
     if (result.error) {
       yaml += `#   - ${result.name}: ERROR - ${result.error}\n`;
     } else {
-      yaml += `#   - ${result.name}: ${result.domainCount} domains (${result.categories.join(', ')})\n`;
+      const count = result.filterCount ? `${result.filterCount} network filters` : `${result.domainCount} domains`;
+      yaml += `#   - ${result.name}: ${count} (${result.categories.join(', ')})\n`;
     }
   }
 
   yaml += `
 metadata:
   generated_at: "${generatedAt}"
+  version: ${version}
   total_domains: ${sortedDomains.length}
   sources:
 `;
@@ -345,6 +427,8 @@ metadata:
       name: "${result.name}"
       fetched_at: "${result.fetchedAt || 'N/A'}"
       domain_count: ${result.domainCount || 0}
+      filter_count: ${result.filterCount || 0}
+      categories: [${(result.categories || []).map(cat => `"${cat}"`).join(', ')}]
       status: "${result.error ? 'error' : 'success'}"
 `;
     if (result.error) {
@@ -352,13 +436,54 @@ metadata:
     }
   }
 
+  yaml += `  categories:\n`;
+  for (const cat of Object.keys(categoryCounts).sort()) {
+    yaml += `    ${cat}: ${categoryCounts[cat]}\n`;
+  }
+
+  // Group domains by their exact category set so each domain is written once
+  // and the browser can toggle categories individually
+  const groups = new Map(); // "cat1,cat2" -> domains
+  for (const domain of sortedDomains) {
+    const key = Array.from(domainCategories.get(domain)).sort().join(',');
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key).push(domain);
+  }
+
   yaml += `
-# Blocked domains (auto-generated from sources above)
-blocked_sites:
+# Uncategorized domains (always blocked)
+blocked_sites: []
+
+# Blocked domains grouped by source categories (auto-generated from sources above)
+categorized_sites:
 `;
 
-  for (const domain of sortedDomains) {
-    yaml += `  - ${domain}\n`;
+  for (const key of Array.from(groups.keys()).sort()) {
+    yaml += `  - categories: [${key.split(',').filter(Boolean).map(cat => `"${cat}"`).join(', ')}]
+    sites:
+`;
+    for (const domain of groups.get(key)) {
+      yaml += `      - ${domain}\n`;
+    }
+  }
+
+  yaml += `
+# ABP/uBlock network filters (applied when tracking protection is "strict")
+network_filters:${results.some(r => !r.error && r.filters.length > 0) ? '' : ' []'}
+`;
+
+  for (const result of results) {
+    if (result.error || result.filters.length === 0) continue;
+
+    yaml += `  - source: "${result.id}"
+    categories: [${result.categories.map(cat => `"${cat}"`).join(', ')}]
+    filters:
+`;
+    for (const filter of result.filters) {
+      yaml += `      - ${JSON.stringify(filter)}\n`;
+    }
   }
 
   yaml += `
@@ -369,7 +494,103 @@ blocked_keywords: []
 blocked_urls: []
 `;
 
-  return yaml;
+  const metadata = {
+    generated_at: generatedAt,
+    version,
+    total_domains: sortedDomains.length,
+    sources: results.map(result => ({
+      id: result.id,
+      name: result.name,
+      fetched_at: result.fetchedAt || 'N/A',
+      domain_count: result.domainCount || 0,
+      filter_count: result.filterCount || 0,
+      categories: result.categories || [],
+      status: result.error ? 'error' : 'success',
+      ...(result.error ? { error: result.error } : {})
+    })),
+    categories: categoryCounts
+  };
+
+  const index = buildBlocklistIndex({
+    generatedAt,
+    metadata,
+    domainCategories,
+    categoryCounts,
+    results,
+    lists: {
+      blocked_keywords: [],
+      blocked_urls: [],
+      network_filters: results
+        .filter(result => !result.error && result.filters.length > 0)
+        .map(result => ({ source: result.id, categories: result.categories, filters: result.filters }))
+    }
+  });
+
+  return { yaml, index, uniqueCount: sortedDomains.length };
+}
+
+// Build the binary index (blacklist.bin); layout documented in src/main/blocklistIndex.ts
+function buildBlocklistIndex({ generatedAt, metadata, domainCategories, categoryCounts, results, lists }) {
+  const categories = Object.keys(categoryCounts).sort().slice(0, 31);
+
+  // Reversed labels so a hostname's parent domains can be binary-searched
+  const entries = Array.from(domainCategories.entries())
+    .map(([domain, cats]) => {
+      let mask = 0;
+      for (const cat of cats) {
+        const bit = categories.indexOf(cat);
+        if (bit >= 0) mask |= 1 << bit;
+      }
+      return { reversed: domain.split('.').reverse().join('.'), mask: mask >>> 0 };
+    })
+    .sort((a, b) => (a.reversed < b.reversed ? -1 : a.reversed > b.reversed ? 1 : 0));
+
+  const offsets = Buffer.alloc((entries.length + 1) * 4);
+  const masks = Buffer.alloc(entries.length * 4);
+  let position = 0;
+  entries.forEach((entry, i) => {
+    offsets.writeUInt32LE(position, i * 4);
+    masks.writeUInt32LE(entry.mask, i * 4);
+    position += entry.reversed.length;
+  });
+  offsets.writeUInt32LE(position, entries.length * 4);
+
+  const domainText = Buffer.from(entries.map(entry => entry.reversed).join(''), 'latin1');
+  const listsJson = Buffer.from(JSON.stringify(lists), 'utf8');
+
+  const sourceHashes = {};
+  for (const result of results) {
+    if (!result.error && result.hash) sourceHashes[result.id] = result.hash;
+  }
+
+  let headerJson = JSON.stringify({
+    format_version: CONFIG.indexVersion,
+    generated_at: generatedAt,
+    source_hashes: sourceHashes,
+    counts: {
+      domains: entries.length,
+      keywords: lists.blocked_keywords.length,
+      urls: lists.blocked_urls.length,
+      network_filters: lists.network_filters.reduce((sum, list) => sum + list.filters.length, 0)
+    },
+    categories,
+    category_counts: categoryCounts,
+    metadata,
+    sections: {
+      domain_text: domainText.length,
+      lists: listsJson.length
+    }
+  });
+  // Keep the uint32 tables 4-byte aligned
+  headerJson += ' '.repeat((4 - (Buffer.byteLength(headerJson) % 4)) % 4);
+  const header = Buffer.from(headerJson, 'utf8');
+
+  const prefix = Buffer.alloc(12);
+  prefix.write('JBBL', 0, 'ascii');
+  prefix.writeUInt32LE(CONFIG.indexVersion, 4);
+  prefix.writeUInt32LE(header.length, 8);
+
+  return Buffer.concat([prefix, header, offsets, masks, domainText, listsJson]);
 }
 
 // Main execution
@@ -390,16 +611,18 @@ async function main() {
   }
 
   // Compile final blocklist
-  const yaml = compileBlocklist(results);
+  const { yaml, index, uniqueCount } = compileBlocklist(results);
 
-  // Write output
+  // Write output; the index goes second so it is never older than the YAML it mirrors
   const outputPath = path.join(CONFIG.outputDir, CONFIG.outputFile);
   fs.writeFileSync(outputPath, yaml);
-  console.log(`\nBlocklist written to: ${outputPath}`);
+  fs.writeFileSync(path.join(CONFIG.outputDir, CONFIG.indexFile), index);
+  console.log(`\nBlocklist written to: ${outputPath} (+ ${CONFIG.indexFile}, ${(index.length / 1024).toFixed(0)} KB)`);
 
   // Also copy to the main blacklist.yaml location for immediate use
   const mainBlacklistPath = path.join(__dirname, '..', 'blacklist.yaml');
   fs.writeFileSync(mainBlacklistPath, yaml);
+  fs.writeFileSync(path.join(__dirname, '..', CONFIG.indexFile), index);
   console.log(`Also updated: ${mainBlacklistPath}`);
 
   // Summary
@@ -411,9 +634,6 @@ async function main() {
   const totalDomains = results.reduce((sum, r) => sum + (r.domains?.size || 0), 0);
   console.log(`Total domains before dedup: ${totalDomains}`);
 
-  // Parse the output to get actual unique count
-  const uniqueCount = yaml.match(/blocked_sites:/)[0] ?
-    (yaml.split('blocked_sites:')[1].match(/  - /g) || []).length : 0;
   console.log(`Total unique domains: ${uniqueCount}`);
 
   console.log('\nDone!');
@@ -39,12 +39,20 @@ import {
 } from '../shared/types';
 import { SecureTokenStorage, getSecureTokenStorage } from './secureTokenStorage';
 
+/**
+ * Page to load after sign-in, in the tab that asked for it
+ */
+export interface SignInReturn {
+  url: string;
+  webContentsId: number;
+}
+
 /**
  * Authentication Manager events
  */
 export interface AuthManagerEvents {
   'session-changed': (session: AuthSession) => void;
-  'sign-in-required': (feature: ParticipationFeature) => void;
+  'sign-in-required': (feature?: ParticipationFeature, returnTo?: SignInReturn) => void;
   'token-refreshed': () => void;
   'sign-out-complete': () => void;
 }
@@ -331,9 +339,10 @@ export class AuthenticationManager extends EventEmitter {
   /**
    * Request sign-in for a specific feature
    * Emits event and optionally shows sign-in UI
+   * returnTo.url is reloaded in the tab of returnTo.webContentsId once sign-in succeeds
    */
-  requestSignIn(feature: ParticipationFeature): void {
-    this.emit('sign-in-required', feature);
+  requestSignIn(feature?: ParticipationFeature, returnTo?: SignInReturn): void {
+    this.emit('sign-in-required', feature, returnTo);
   }
 
   /**
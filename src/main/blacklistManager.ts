@@ -3,9 +3,14 @@
  * Manages website blocking based on compiled blocklists from reputable sources
  *
  * Features:
- * - Loads compiled blocklist from YAML
+ * - Loads the compiled binary index (blacklist.bin), falling back to the YAML
+ * - Applies signed delta updates downloaded by BlocklistUpdater on top of the compiled list
+ * - Matches domains with a suffix trie and keywords/URLs with Aho-Corasick
+ * - Evaluates ABP/uBlock network filters (EasyList, EasyPrivacy) when tracking protection is strict
+ * - Keeps each domain's source categories; categories can be toggled in Safe Browsing settings
  * - Supports allowlist for false positive overrides
- * - Logs all block events for debugging
+ * - Merges the active profile's user block/allow entries (UserBlocklist)
+ * - Logs block events; the log is persisted per profile by BlockLogStore
  * - Hot-reloads on file changes
  */
 
@@ -13,27 +18,72 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
 import { app } from 'electron';
+import { v4 as uuidv4 } from 'uuid';
+import { DomainMatch, DomainMatcher, DomainTrie, PatternMatcher } from './blocklistMatcher';
+import { readBlocklistIndex } from './blocklistIndex';
+import { NetworkFilterEngine } from './networkFilterEngine';
+import { SettingsManager } from './settingsManager';
+import { UserBlocklist } from './userBlocklist';
+import { BlockReportQueue } from './blockReportQueue';
+import { BlockLogStore } from './blockLogStore';
+import type { BlocklistDeltaPayload, BlocklistUpdateTarget } from './blocklistUpdater';
+import {
+  DEFAULT_BLOCKLIST_UPDATE_CONFIG,
+  BLOCKLIST_CATEGORIES,
+  BLOCK_BYPASS_DURATION,
+  BlockReport,
+  UserLists,
+} from '../shared/types';
 
 interface BlocklistMetadata {
   generated_at: string;
+  version?: number;         // Compiled list version, then the latest applied delta's
+  updated_at?: string;      // When the latest delta was applied
   total_domains: number;
+  categories?: Record<string, number>;
   sources: Array<{
     id: string;
     name: string;
     fetched_at: string;
     domain_count: number;
+    filter_count?: number;
+    categories?: string[];
     status: string;
     error?: string;
   }>;
 }
 
+interface CategorizedSites {
+  categories: string[];
+  sites: string[];
+}
+
+interface NetworkFilterList {
+  source: string;
+  categories: string[];
+  filters: string[];                          // ABP/uBlock network filter lines
+}
+
 interface BlacklistConfig {
   metadata?: BlocklistMetadata;
-  blocked_sites: string[];
+  blocked_sites: string[];                    // Uncategorized (always blocked)
+  categorized_sites?: CategorizedSites[];     // Grouped by the exact set of source categories
+  network_filters?: NetworkFilterList[];      // Applied when tracking protection is strict
   blocked_keywords: string[];
   blocked_urls?: string[];
 }
 
+/**
+ * Deltas applied on top of the compiled list, persisted in userData
+ */
+interface BlocklistUpdateState {
+  baseVersion: number;                // Compiled list version the deltas build on
+  version: number;
+  updatedAt: string;
+  added: Record<string, string[]>;    // Domain -> categories
+  removed: string[];
+}
+
 interface AllowlistEntry {
   domain: string;
   reason: string;
@@ -45,30 +95,59 @@ interface AllowlistConfig {
   allowed_sites: AllowlistEntry[];
 }
 
-interface BlockEvent {
+/**
+ * Request details used by check(); everything is optional for plain URL checks
+ */
+export interface BlockCheckContext {
+  browserMode?: string;
+  webContentsId?: number;   // Requesting tab, for "Proceed anyway" bypasses
+  resourceType?: string;    // Electron webRequest resourceType; enables network filters
+  firstPartyUrl?: string;   // Page that made the request, for $third-party and $domain=
+}
+
+export interface BlockEvent {
   timestamp: string;
   url: string;
   domain: string;
-  matchType: 'exact' | 'subdomain' | 'keyword' | 'url';
+  matchType: 'exact' | 'subdomain' | 'keyword' | 'url' | 'user' | 'filter';
   matchedPattern: string;
   sourceCategories?: string[];
   browserMode: string;
 }
 
-export class BlacklistManager {
-  private blockedSites: Set<string> = new Set();
-  private blockedKeywords: string[] = [];
-  private blockedUrls: Set<string> = new Set();
-  private allowedSites: Set<string> = new Set();
+// Blocks that carry source categories; only these can be bypassed
+const BYPASSABLE_MATCH_TYPES: BlockEvent['matchType'][] = ['exact', 'subdomain', 'filter'];
+
+export class BlacklistManager implements BlocklistUpdateTarget {
+  private blockedSites: DomainMatcher = new DomainTrie();
+  private blockedKeywords: PatternMatcher = new PatternMatcher([]);
+  private blockedUrls: PatternMatcher = new PatternMatcher([]);
+  private networkFilters: NetworkFilterEngine = new NetworkFilterEngine();
+  private allowedSites: DomainTrie = new DomainTrie();
+  private updatedSites: DomainTrie = new DomainTrie();   // Added by delta updates
+  private removedSites: Set<string> = new Set();          // Removed by delta updates
+  private updateState: BlocklistUpdateState | null = null;
+  private updateStatePath: string;
+  private compiledVersion: number | null = null;
   private configPath: string;
+  private indexPath: string;
   private allowlistPath: string;
   private watchedFiles: fs.FSWatcher[] = [];
   private metadata: BlocklistMetadata | null = null;
-  private blockLog: BlockEvent[] = [];
+  private blockLog: BlockEvent[] = [];       // Newest events, cached from blockLogStore
   private maxLogEntries: number = 1000;
+  private blockLogStore: BlockLogStore | null = null;
+  private settingsManager: SettingsManager | null = null;
+  private userBlocklist: UserBlocklist | null = null;
+  private reportQueue: BlockReportQueue | null = null;
+  private blockedPages: Map<string, { event: BlockEvent; webContentsId?: number }> = new Map(); // key: block page ID
+  private bypasses: Map<string, number> = new Map(); // key: "webContentsId|pattern" -> expiry
+  private maxBlockedPages: number = 100;
 
   constructor() {
     this.configPath = this.findConfigPath();
+    this.indexPath = this.configPath.replace(/\.ya?ml$/, '') + '.bin';
+    this.updateStatePath = path.join(app.getPath('userData'), DEFAULT_BLOCKLIST_UPDATE_CONFIG.stateFile);
     this.allowlistPath = this.findAllowlistPath();
     this.loadBlacklist();
     this.loadAllowlist();
@@ -126,43 +205,194 @@ export class BlacklistManager {
         return;
       }
 
+      if (this.loadIndex()) {
+        this.restoreUpdates();
+        return;
+      }
+
       const fileContent = fs.readFileSync(this.configPath, 'utf8');
       const config = yaml.load(fileContent) as BlacklistConfig;
 
-      this.blockedSites.clear();
-      this.blockedKeywords = [];
-      this.blockedUrls.clear();
+      // Build into fresh matchers so requests during a hot-reload see the old list
+      const blockedSites = new DomainTrie();
       this.metadata = config.metadata || null;
 
       if (config.blocked_sites && Array.isArray(config.blocked_sites)) {
         config.blocked_sites.forEach((site) => {
           const normalized = this.normalizeDomain(site);
           if (normalized) {
-            this.blockedSites.add(normalized);
+            blockedSites.add(normalized);
           }
         });
       }
 
-      if (config.blocked_keywords && Array.isArray(config.blocked_keywords)) {
-        this.blockedKeywords = config.blocked_keywords
-          .map((k) => k.toLowerCase().trim())
-          .filter((k) => k.length > 0);
+      if (Array.isArray(config.categorized_sites)) {
+        for (const group of config.categorized_sites) {
+          const categories = Array.isArray(group.categories) ? group.categories : [];
+          for (const site of group.sites ?? []) {
+            const normalized = this.normalizeDomain(site);
+            if (normalized) {
+              blockedSites.add(normalized, categories);
+            }
+          }
+        }
       }
+      this.blockedSites = blockedSites;
 
-      if (config.blocked_urls && Array.isArray(config.blocked_urls)) {
-        config.blocked_urls.forEach((url) => {
-          this.blockedUrls.add(url.toLowerCase().trim());
-        });
+      this.loadPatternLists(config.blocked_keywords, config.blocked_urls, config.network_filters);
+      this.logLoaded('YAML');
+      this.restoreUpdates();
+    } catch (error) {
+      console.error('Error loading blacklist:', error);
+    }
+  }
+
+  /**
+   * Load the binary index written next to the YAML by update-blocklist.js.
+   * Returns false (so the YAML is parsed instead) when the index is missing,
+   * older than the YAML (e.g. the YAML was edited by hand) or unreadable.
+   */
+  private loadIndex(): boolean {
+    try {
+      if (!fs.existsSync(this.indexPath)
+        || fs.statSync(this.indexPath).mtimeMs < fs.statSync(this.configPath).mtimeMs) {
+        return false;
       }
 
-      console.log(`Blacklist loaded: ${this.blockedSites.size} sites, ${this.blockedKeywords.length} keywords, ${this.blockedUrls.size} URLs`);
+      const index = readBlocklistIndex(fs.readFileSync(this.indexPath));
+      this.metadata = (index.header.metadata as BlocklistMetadata) || null;
+      this.blockedSites = index.domains;
+      this.loadPatternLists(index.lists.blocked_keywords, index.lists.blocked_urls, index.lists.network_filters);
+      this.logLoaded('index');
+      return true;
+    } catch (error) {
+      console.warn('Blacklist index could not be loaded, falling back to YAML:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Re-apply downloaded deltas on top of the freshly loaded compiled list. They are
+   * dropped once the compiled list has a different version (a newer build ships).
+   */
+  private restoreUpdates(): void {
+    this.compiledVersion = typeof this.metadata?.version === 'number' ? this.metadata.version : null;
 
-      if (this.metadata) {
-        console.log(`Blacklist generated: ${this.metadata.generated_at}`);
-        console.log(`Sources: ${this.metadata.sources?.length || 0}`);
+    let state = this.updateState;
+    if (!state && fs.existsSync(this.updateStatePath)) {
+      try {
+        state = JSON.parse(fs.readFileSync(this.updateStatePath, 'utf-8')) as BlocklistUpdateState;
+      } catch (error) {
+        console.error('Failed to load blocklist updates:', error);
       }
+    }
+
+    if (state && state.baseVersion !== this.compiledVersion) {
+      console.log(`Discarding blocklist updates for version ${state.baseVersion} (compiled list is ${this.compiledVersion})`);
+      state = null;
+      fs.rmSync(this.updateStatePath, { force: true });
+    }
+
+    this.setUpdateState(state);
+  }
+
+  private setUpdateState(state: BlocklistUpdateState | null): void {
+    const updatedSites = new DomainTrie();
+    for (const [domain, categories] of Object.entries(state?.added || {})) {
+      updatedSites.add(domain, categories);
+    }
+
+    // Swapped in together, so a request never sees half of an update
+    this.updateState = state;
+    this.updatedSites = updatedSites;
+    this.removedSites = new Set(state?.removed || []);
+    if (state && this.metadata) {
+      this.metadata = { ...this.metadata, version: state.version, updated_at: state.updatedAt };
+    }
+
+    if (state) {
+      console.log(`Blocklist updates applied: version ${state.version}, +${updatedSites.size} / -${this.removedSites.size} domains`);
+    }
+  }
+
+  /**
+   * Current list version: the latest applied delta, else the compiled list's
+   */
+  getBlocklistVersion(): number | null {
+    return this.updateState?.version ?? this.compiledVersion;
+  }
+
+  /**
+   * Apply a verified delta. The new state is written (temp file + rename) before
+   * it replaces the in-memory lists, so a failure leaves the previous version intact.
+   */
+  applyDelta(delta: BlocklistDeltaPayload): boolean {
+    if (this.compiledVersion === null || delta.fromVersion !== this.getBlocklistVersion()) {
+      return false;
+    }
+
+    const added: Record<string, string[]> = { ...(this.updateState?.added || {}) };
+    const removed = new Set(this.updateState?.removed || []);
+    for (const domain of delta.removed) {
+      const normalized = this.normalizeDomain(domain);
+      if (!normalized) continue;
+      delete added[normalized];
+      removed.add(normalized);
+    }
+    for (const entry of delta.added) {
+      const normalized = this.normalizeDomain(entry.domain);
+      if (!normalized) continue;
+      removed.delete(normalized);
+      added[normalized] = Array.isArray(entry.categories) ? entry.categories : [];
+    }
+
+    const state: BlocklistUpdateState = {
+      baseVersion: this.compiledVersion,
+      version: delta.toVersion,
+      updatedAt: new Date().toISOString(),
+      added,
+      removed: Array.from(removed),
+    };
+
+    try {
+      const tempPath = `${this.updateStatePath}.tmp`;
+      fs.mkdirSync(path.dirname(this.updateStatePath), { recursive: true });
+      fs.writeFileSync(tempPath, JSON.stringify(state));
+      fs.renameSync(tempPath, this.updateStatePath);
     } catch (error) {
-      console.error('Error loading blacklist:', error);
+      console.error('Failed to save blocklist update:', error);
+      return false;
+    }
+
+    this.setUpdateState(state);
+    return true;
+  }
+
+  private loadPatternLists(keywords?: string[], urls?: string[], filterLists?: NetworkFilterList[]): void {
+    this.blockedKeywords = new PatternMatcher(
+      Array.isArray(keywords) ? keywords.map((k) => k.toLowerCase().trim()) : []
+    );
+
+    this.blockedUrls = new PatternMatcher(
+      Array.isArray(urls) ? urls.map((url) => url.toLowerCase().trim()) : []
+    );
+
+    const networkFilters = new NetworkFilterEngine();
+    for (const list of Array.isArray(filterLists) ? filterLists : []) {
+      const categories = Array.isArray(list.categories) ? list.categories : [];
+      for (const filter of list.filters ?? []) {
+        networkFilters.add(filter, categories);
+      }
+    }
+    this.networkFilters = networkFilters;
+  }
+
+  private logLoaded(format: 'YAML' | 'index'): void {
+    console.log(`Blacklist loaded from ${format}: ${this.blockedSites.size} sites, ${this.blockedKeywords.size} keywords, ${this.blockedUrls.size} URLs, ${this.networkFilters.size} network filters`);
+
+    if (this.metadata) {
+      console.log(`Blacklist generated: ${this.metadata.generated_at}`);
+      console.log(`Sources: ${this.metadata.sources?.length || 0}`);
     }
   }
 
@@ -176,17 +406,18 @@ export class BlacklistManager {
       const fileContent = fs.readFileSync(this.allowlistPath, 'utf8');
       const config = yaml.load(fileContent) as AllowlistConfig;
 
-      this.allowedSites.clear();
+      const allowedSites = new DomainTrie();
 
       if (config.allowed_sites && Array.isArray(config.allowed_sites)) {
         config.allowed_sites.forEach((entry) => {
           const normalized = this.normalizeDomain(entry.domain);
           if (normalized) {
-            this.allowedSites.add(normalized);
+            allowedSites.add(normalized);
             console.log(`Allowlisted: ${normalized} (${entry.reason})`);
           }
         });
       }
+      this.allowedSites = allowedSites;
 
       console.log(`Allowlist loaded: ${this.allowedSites.size} sites`);
     } catch (error) {
@@ -235,7 +466,7 @@ blocked_urls: []
   }
 
   private watchConfigFiles(): void {
-    const filesToWatch = [this.configPath, this.allowlistPath];
+    const filesToWatch = [this.configPath, this.indexPath, this.allowlistPath];
 
     for (const filePath of filesToWatch) {
       try {
@@ -244,7 +475,7 @@ blocked_urls: []
             if (eventType === 'change') {
               console.log(`Config file changed: ${filePath}`);
               setTimeout(() => {
-                if (filePath === this.configPath) {
+                if (filePath === this.configPath || filePath === this.indexPath) {
                   this.loadBlacklist();
                 } else {
                   this.loadAllowlist();
@@ -260,104 +491,280 @@ blocked_urls: []
     }
   }
 
+  /**
+   * Set the settings manager used for per-category toggles (injected after construction)
+   */
+  setSettingsManager(settingsManager: SettingsManager): void {
+    this.settingsManager = settingsManager;
+  }
+
+  /**
+   * Set the active profile's user block/allow entries (injected after construction)
+   */
+  setUserBlocklist(userBlocklist: UserBlocklist): void {
+    this.userBlocklist = userBlocklist;
+  }
+
+  /**
+   * Get the active profile's user block/allow entries
+   */
+  getUserLists(): UserLists {
+    return this.userBlocklist?.getLists() || { block: [], allow: [] };
+  }
+
+  /**
+   * Set the queue that "Report a mistake" on the block page writes to (injected after construction)
+   */
+  setReportQueue(reportQueue: BlockReportQueue): void {
+    this.reportQueue = reportQueue;
+  }
+
+  /**
+   * Set the per-profile store that persists the block log (injected after construction)
+   */
+  setBlockLogStore(blockLogStore: BlockLogStore): void {
+    this.blockLogStore = blockLogStore;
+    this.blockLog = blockLogStore.readRecent(this.maxLogEntries);
+  }
+
   /**
    * Check if a URL should be blocked
    */
-  isBlocked(url: string, browserMode: string = 'internet'): boolean {
+  isBlocked(url: string, context: BlockCheckContext = {}): boolean {
+    return this.check(url, context) !== null;
+  }
+
+  /**
+   * Check a URL and return the block event (with matched categories), or null if allowed.
+   * Pass the requesting tab's webContentsId so "Proceed anyway" bypasses apply.
+   */
+  check(url: string, context: BlockCheckContext = {}): BlockEvent | null {
     try {
       const parsedUrl = new URL(url);
       const hostname = parsedUrl.hostname.toLowerCase();
-      const fullUrl = url.toLowerCase();
 
-      // First check allowlist - if allowed, don't block
-      if (this.isAllowed(hostname)) {
-        return false;
+      const match = this.findMatch(url, hostname, context);
+      if (!match || this.isBypassed(context.webContentsId, match.pattern)) {
+        return null;
       }
 
-      // Check exact domain match
-      if (this.blockedSites.has(hostname)) {
-        this.logBlockEvent(url, hostname, 'exact', hostname, browserMode);
-        return true;
+      const event = this.createBlockEvent(
+        url,
+        hostname,
+        match.matchType,
+        match.pattern,
+        context.browserMode || 'internet',
+        match.categories
+      );
+
+      // Network filter hits on subresources are counted per tab by TrackingProtection;
+      // logging each one would push the blocked pages out of the block log
+      if (match.matchType === 'filter' && context.resourceType !== 'mainFrame') {
+        return event;
       }
+      return this.logBlockEvent(event);
+    } catch (error) {
+      console.error('Error checking blacklist for URL:', url, error);
+      return null;
+    }
+  }
 
-      // Check if it's a subdomain of a blocked site
-      for (const blockedSite of this.blockedSites) {
-        if (hostname.endsWith('.' + blockedSite)) {
-          this.logBlockEvent(url, hostname, 'subdomain', blockedSite, browserMode);
-          return true;
-        }
+  private findMatch(
+    url: string,
+    hostname: string,
+    context: BlockCheckContext
+  ): { matchType: BlockEvent['matchType']; pattern: string; categories?: string[] } | null {
+    const fullUrl = url.toLowerCase();
+
+    // User entries first: allow overrides every block, block overrides the compiled allowlist
+    if (this.userBlocklist) {
+      if (this.userBlocklist.match('allow', url, hostname)) {
+        return null;
       }
-
-      // Check URL-level blocks
-      for (const blockedUrl of this.blockedUrls) {
-        if (fullUrl.includes(blockedUrl)) {
-          this.logBlockEvent(url, hostname, 'url', blockedUrl, browserMode);
-          return true;
-        }
+      const userEntry = this.userBlocklist.match('block', url, hostname);
+      if (userEntry) {
+        return { matchType: 'user', pattern: userEntry.pattern };
       }
+    }
 
-      // Check keyword matches
-      for (const keyword of this.blockedKeywords) {
-        if (fullUrl.includes(keyword)) {
-          this.logBlockEvent(url, hostname, 'keyword', keyword, browserMode);
-          return true;
-        }
+    // Then check allowlist - if allowed, don't block
+    if (this.isAllowed(hostname)) {
+      return null;
+    }
+
+    // Check exact domain match, then parent domains (reversed-label trie lookup)
+    const domainMatch = this.matchDomain(hostname);
+    if (domainMatch) {
+      return {
+        matchType: domainMatch.exact ? 'exact' : 'subdomain',
+        pattern: domainMatch.domain,
+        categories: domainMatch.categories,
+      };
+    }
+
+    // Check URL-level blocks
+    const blockedUrl = this.blockedUrls.find(fullUrl);
+    if (blockedUrl) {
+      return { matchType: 'url', pattern: blockedUrl };
+    }
+
+    // Check keyword matches
+    const keyword = this.blockedKeywords.find(fullUrl);
+    if (keyword) {
+      return { matchType: 'keyword', pattern: keyword };
+    }
+
+    // Network filters need the request's resource type and first party
+    if (context.resourceType && this.networkFilters.size > 0
+      && this.settingsManager?.getSetting('privacy').trackingProtection === 'strict') {
+      const disabled = this.getDisabledCategoryIds();
+      const filterMatch = this.networkFilters.match(
+        { url, resourceType: context.resourceType, firstPartyUrl: context.firstPartyUrl },
+        (categories) => categories.length === 0 || categories.some((category) => !disabled.includes(category))
+      );
+      if (filterMatch) {
+        return {
+          matchType: 'filter',
+          pattern: filterMatch.filter.raw,
+          categories: filterMatch.filter.categories.filter((category) => !disabled.includes(category)),
+        };
       }
+    }
 
-      return false;
-    } catch (error) {
-      console.error('Error checking blacklist for URL:', url, error);
+    return null;
+  }
+
+  /**
+   * Match a hostname against the compiled domains with delta updates applied
+   */
+  private matchDomain(hostname: string): DomainMatch | null {
+    const updated = this.updatedSites.size > 0
+      ? this.updatedSites.match(hostname, this.updatedSites.getCategoryMask(this.getDisabledCategoryIds()))
+      : null;
+    if (updated?.exact) {
+      return updated;
+    }
+
+    // A removed domain only unlists itself: keep walking up to parents that are still listed
+    const disabledCategories = this.getDisabledCategories();
+    let listed = this.blockedSites.match(hostname, disabledCategories);
+    while (listed && this.removedSites.has(listed.domain)) {
+      const dot = listed.domain.indexOf('.');
+      const parent = dot === -1 ? null : this.blockedSites.match(listed.domain.substring(dot + 1), disabledCategories);
+      listed = parent && { ...parent, exact: false };
+    }
+    return listed ?? updated;
+  }
+
+  /**
+   * Whether the block page may offer "Proceed anyway"
+   * Denied by default: only domain and filter matches qualify, and only when every matched
+   * category is marked bypassable. Keyword, URL, user and uncategorized blocks never do.
+   */
+  canBypass(blockEvent: BlockEvent): boolean {
+    const categories = blockEvent.sourceCategories || [];
+    return BYPASSABLE_MATCH_TYPES.includes(blockEvent.matchType)
+      && categories.length > 0
+      && categories.every((id) => BLOCKLIST_CATEGORIES.some((category) => category.id === id && category.bypassable));
+  }
+
+  private isBypassed(webContentsId: number | undefined, pattern: string): boolean {
+    if (webContentsId === undefined) return false;
+
+    const key = `${webContentsId}|${pattern}`;
+    const expiresAt = this.bypasses.get(key);
+    if (expiresAt === undefined) return false;
+
+    if (expiresAt < Date.now()) {
+      this.bypasses.delete(key);
       return false;
     }
+    return true;
   }
 
   /**
-   * Check if a domain is in the allowlist
+   * "Proceed anyway": unblock the matched pattern in the blocking tab for a limited time.
+   * Returns the URL to continue to, or null if the block cannot be bypassed.
    */
-  private isAllowed(hostname: string): boolean {
-    if (this.allowedSites.has(hostname)) {
-      return true;
+  proceedAnyway(blockId: string): string | null {
+    const blockedPage = this.blockedPages.get(blockId);
+    if (!blockedPage || blockedPage.webContentsId === undefined || !this.canBypass(blockedPage.event)) {
+      return null;
     }
 
-    // Check parent domains
-    const parts = hostname.split('.');
-    for (let i = 1; i < parts.length; i++) {
-      const parentDomain = parts.slice(i).join('.');
-      if (this.allowedSites.has(parentDomain)) {
-        return true;
-      }
+    const { event, webContentsId } = blockedPage;
+    this.bypasses.set(`${webContentsId}|${event.matchedPattern}`, Date.now() + BLOCK_BYPASS_DURATION);
+    console.log(`[BLOCKED] Bypass granted for ${event.matchedPattern} in tab ${webContentsId}`);
+    return event.url;
+  }
+
+  /**
+   * "Report a mistake": queue the block for the support desk
+   */
+  reportMistake(blockId: string): BlockReport | null {
+    const blockedPage = this.blockedPages.get(blockId);
+    if (!blockedPage || !this.reportQueue) {
+      return null;
     }
+    return this.reportQueue.add(blockedPage.event);
+  }
+
+  /**
+   * Bitmask of categories switched off in Safe Browsing settings
+   */
+  private getDisabledCategories(): number {
+    const disabled = this.getDisabledCategoryIds();
+    return disabled.length > 0 ? this.blockedSites.getCategoryMask(disabled) : 0;
+  }
 
-    return false;
+  private getDisabledCategoryIds(): string[] {
+    const toggles = this.settingsManager?.getSetting('privacy').blocklistCategories;
+    if (!toggles) return [];
+    return Object.keys(toggles).filter((category) => toggles[category] === false);
   }
 
   /**
-   * Log a block event for debugging
+   * Check if a domain is in the allowlist
    */
-  private logBlockEvent(
+  private isAllowed(hostname: string): boolean {
+    // Matches the hostname itself or any parent domain
+    return this.allowedSites.match(hostname) !== null;
+  }
+
+  private createBlockEvent(
     url: string,
     domain: string,
-    matchType: 'exact' | 'subdomain' | 'keyword' | 'url',
+    matchType: BlockEvent['matchType'],
     matchedPattern: string,
-    browserMode: string
-  ): void {
-    const event: BlockEvent = {
+    browserMode: string,
+    sourceCategories?: string[]
+  ): BlockEvent {
+    return {
       timestamp: new Date().toISOString(),
       url,
       domain,
       matchType,
       matchedPattern,
+      sourceCategories: sourceCategories && sourceCategories.length > 0 ? sourceCategories : undefined,
       browserMode
     };
+  }
 
+  /**
+   * Add a block event to the block log (memory and the profile's log files)
+   */
+  private logBlockEvent(event: BlockEvent): BlockEvent {
     this.blockLog.push(event);
+    this.blockLogStore?.append(event);
 
     // Keep log size bounded
     if (this.blockLog.length > this.maxLogEntries) {
       this.blockLog = this.blockLog.slice(-this.maxLogEntries);
     }
 
-    console.log(`[BLOCKED] ${matchType} match: ${domain} (pattern: ${matchedPattern})`);
+    const categoryNote = event.sourceCategories ? `, categories: ${event.sourceCategories.join(', ')}` : '';
+    console.log(`[BLOCKED] ${event.matchType} match: ${event.domain} (pattern: ${event.matchedPattern}${categoryNote})`);
+    return event;
   }
 
   /**
@@ -368,9 +775,72 @@ blocked_urls: []
   }
 
   /**
-   * Get the blocked page HTML content
+   * Get block events between from and to (inclusive), oldest first. Served from
+   * memory when the cached events cover the range, otherwise read from the log files.
+   */
+  async queryBlockLog(from?: Date, to?: Date): Promise<BlockEvent[]> {
+    const start = from?.getTime() ?? 0;
+    const end = to?.getTime() ?? Infinity;
+    const inRange = (event: BlockEvent) => {
+      const time = Date.parse(event.timestamp);
+      return time >= start && time <= end;
+    };
+
+    if (!this.blockLogStore) {
+      return this.blockLog.filter(inRange);
+    }
+
+    const cacheHoldsEverything = this.blockLog.length < this.maxLogEntries;
+    const cacheStart = this.blockLog.length > 0 ? Date.parse(this.blockLog[0].timestamp) : Infinity;
+    if (cacheHoldsEverything || cacheStart <= start) {
+      const retentionStart = this.blockLogStore.getRetentionStart();
+      return this.blockLog.filter((event) => inRange(event) && Date.parse(event.timestamp) >= retentionStart);
+    }
+    return this.blockLogStore.query(from, to);
+  }
+
+  /**
+   * Clear the block log, including the profile's log files (jubilee://blocked)
    */
-  getBlockedPageContent(blockedUrl: string): string {
+  clearBlockLog(): void {
+    this.blockLog = [];
+    this.blockLogStore?.clear();
+    console.log('[BlacklistManager] Block log cleared');
+  }
+
+  /**
+   * Get the blocked page HTML content. With a block event, the page offers
+   * "Report a mistake" and, where allowed, "Proceed anyway" for the tab.
+   */
+  getBlockedPageContent(blockedUrl: string, blockEvent?: BlockEvent | null, webContentsId?: number): string {
+    let actionsHtml = '';
+    if (blockEvent) {
+      const blockId = uuidv4();
+      this.blockedPages.set(blockId, { event: blockEvent, webContentsId });
+      if (this.blockedPages.size > this.maxBlockedPages) {
+        this.blockedPages.delete(this.blockedPages.keys().next().value as string);
+      }
+
+      const minutes = Math.round(BLOCK_BYPASS_DURATION / 60000);
+      actionsHtml = `
+    <div class="actions">
+      ${webContentsId !== undefined && this.canBypass(blockEvent)
+        ? `<a class="link-btn" href="jubilee://blocked/proceed?id=${blockId}">Proceed anyway (${minutes} minutes)</a>`
+        : ''}
+      <a class="link-btn" href="jubilee://blocked/report?id=${blockId}">Report a mistake</a>
+    </div>`;
+    }
+
+    const categoryLabels = (blockEvent?.sourceCategories || []).map(
+      (id) => BLOCKLIST_CATEGORIES.find((category) => category.id === id)?.label || id
+    );
+    const categoryHtml = categoryLabels.length > 0
+      ? `<div class="categories">${categoryLabels.map((label) => `<span class="category">${this.escapeHtml(label)}</span>`).join('')}</div>`
+      : '';
+    const info = blockEvent?.matchType === 'user'
+      ? `This site matches "${this.escapeHtml(blockEvent.matchedPattern)}" in your Safe Browsing block list.`
+      : 'This site appears on one or more community-maintained blocklists designed to protect your browsing experience.';
+
     return `
 <!DOCTYPE html>
 <html lang="en">
@@ -419,6 +889,21 @@ blocked_urls: []
       word-break: break-all;
       margin-bottom: 1.5rem;
     }
+    .categories {
+      display: flex;
+      flex-wrap: wrap;
+      justify-content: center;
+      gap: 0.5rem;
+      margin-bottom: 1.5rem;
+    }
+    .category {
+      background: rgba(230, 172, 0, 0.15);
+      color: #E6AC00;
+      border-radius: 999px;
+      padding: 0.25rem 0.75rem;
+      font-size: 0.8rem;
+      font-weight: 600;
+    }
     .info {
       font-size: 0.85rem;
       color: #666;
@@ -439,6 +924,20 @@ blocked_urls: []
     .back-btn:hover {
       background: linear-gradient(135deg, #FFD700, #FFF8DC);
     }
+    .actions {
+      display: flex;
+      justify-content: center;
+      gap: 1.5rem;
+      margin-top: 1.5rem;
+    }
+    .link-btn {
+      color: #a0a0a0;
+      font-size: 0.85rem;
+      text-decoration: underline;
+    }
+    .link-btn:hover {
+      color: #E6AC00;
+    }
   </style>
 </head>
 <body>
@@ -447,8 +946,10 @@ blocked_urls: []
     <h1>Content Blocked</h1>
     <p>This website has been blocked by Jubilee's Safe Browsing protection.</p>
     <div class="blocked-url">${this.escapeHtml(blockedUrl)}</div>
-    <p class="info">This site appears on one or more community-maintained blocklists designed to protect your browsing experience.</p>
+    ${categoryHtml}
+    <p class="info">${info}</p>
     <button class="back-btn" onclick="history.back()">Go Back</button>
+    ${actionsHtml}
   </div>
 </body>
 </html>`;
@@ -472,15 +973,25 @@ blocked_urls: []
     totalDomains: number;
     totalKeywords: number;
     totalUrls: number;
+    totalNetworkFilters: number;
     allowedSites: number;
+    categories: Record<string, number>;
+    version: number | null;
+    updatedAt: string | null;
+    updatedDomains: number;
     generatedAt: string | null;
     sources: BlocklistMetadata['sources'] | null;
   } {
     return {
       totalDomains: this.blockedSites.size,
-      totalKeywords: this.blockedKeywords.length,
+      totalKeywords: this.blockedKeywords.size,
       totalUrls: this.blockedUrls.size,
+      totalNetworkFilters: this.networkFilters.size,
       allowedSites: this.allowedSites.size,
+      categories: this.blockedSites.getCategoryCounts(),
+      version: this.getBlocklistVersion(),
+      updatedAt: this.updateState?.updatedAt || null,
+      updatedDomains: this.updatedSites.size + this.removedSites.size,
       generatedAt: this.metadata?.generated_at || null,
       sources: this.metadata?.sources || null
     };
@@ -490,7 +1001,7 @@ blocked_urls: []
    * Get list of blocked sites (for debugging/UI)
    */
   getBlockedSites(): string[] {
-    return Array.from(this.blockedSites);
+    return this.blockedSites.values();
   }
 
   /**
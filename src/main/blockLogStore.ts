@@ -0,0 +1,223 @@
+/**
+ * Block Log Store
+ * Per-profile, append-only record of blocked requests (BlacklistManager block events)
+ *
+ * Events are appended as JSON lines to <profile>/block-log/block-log.jsonl. When the
+ * file passes maxFileSize it is rotated to block-log.1.jsonl, block-log.2.jsonl, ...
+ * and the oldest file is deleted. Files older than the privacy.blockLogRetentionDays
+ * setting are deleted at startup and on rotation, and queries never return events
+ * past the retention period.
+ */
+
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SettingsManager } from './settingsManager';
+import { BlockLogConfig, DEFAULT_BLOCK_LOG_CONFIG, DEFAULT_SETTINGS } from '../shared/types';
+import type { BlockEvent } from './blacklistManager';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export class BlockLogStore {
+  private settingsManager: SettingsManager;
+  private config: BlockLogConfig;
+  private directory: string;
+  private pending: string[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private currentSize: number = 0;
+
+  constructor(
+    settingsManager: SettingsManager,
+    profileDataPath?: string,
+    config: BlockLogConfig = DEFAULT_BLOCK_LOG_CONFIG
+  ) {
+    this.settingsManager = settingsManager;
+    this.config = config;
+    const basePath = profileDataPath || app.getPath('userData');
+    this.directory = path.join(basePath, config.directory);
+
+    this.prune();
+    this.currentSize = this.getFileStats(0)?.size || 0;
+  }
+
+  /**
+   * Queue an event; appends are batched and written after flushDelay
+   */
+  append(event: BlockEvent): void {
+    this.pending.push(JSON.stringify(event));
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.config.flushDelay);
+    }
+  }
+
+  /**
+   * Write queued events to the current file now (also called before quit)
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pending.length === 0) return;
+
+    const data = this.pending.join('\n') + '\n';
+    this.pending = [];
+    try {
+      if (!fs.existsSync(this.directory)) {
+        fs.mkdirSync(this.directory, { recursive: true });
+      }
+      fs.appendFileSync(this.getFilePath(0), data);
+      this.currentSize += Buffer.byteLength(data);
+
+      if (this.currentSize >= this.config.maxFileSize) {
+        this.rotate();
+      }
+    } catch (error) {
+      console.error('Failed to write block log:', error);
+    }
+  }
+
+  /**
+   * Events blocked between from and to (inclusive), oldest first
+   * Files are read asynchronously, one at a time, so a large log does not stall the main process.
+   */
+  async query(from?: Date, to?: Date): Promise<BlockEvent[]> {
+    this.flush();
+
+    const start = Math.max(from?.getTime() ?? 0, this.getRetentionStart());
+    const end = to?.getTime() ?? Infinity;
+    const events: BlockEvent[] = [];
+
+    for (let index = this.config.maxFiles; index >= 0; index--) {
+      // A file's modification time is its newest event
+      const stats = await fs.promises.stat(this.getFilePath(index)).catch(() => null);
+      if (!stats || stats.mtimeMs < start) continue;
+
+      for (const event of await this.readFileAsync(index)) {
+        const time = Date.parse(event.timestamp);
+        if (time >= start && time <= end) {
+          events.push(event);
+        }
+      }
+    }
+    return events;
+  }
+
+  /**
+   * The newest events within the retention period, oldest first
+   */
+  readRecent(limit: number): BlockEvent[] {
+    this.flush();
+
+    const start = this.getRetentionStart();
+    let events: BlockEvent[] = [];
+    for (let index = 0; index <= this.config.maxFiles && events.length < limit; index++) {
+      const fileEvents = this.readFile(index).filter((event) => Date.parse(event.timestamp) >= start);
+      events = fileEvents.concat(events);
+    }
+    return events.slice(-limit);
+  }
+
+  /**
+   * Oldest time (ms) still inside the retention period
+   */
+  getRetentionStart(): number {
+    const days = Number(this.settingsManager.getSetting('privacy').blockLogRetentionDays)
+      || DEFAULT_SETTINGS.privacy.blockLogRetentionDays;
+    return Date.now() - days * DAY;
+  }
+
+  clear(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.pending = [];
+
+    for (let index = 0; index <= this.config.maxFiles; index++) {
+      this.deleteFile(index);
+    }
+    this.currentSize = 0;
+  }
+
+  private rotate(): void {
+    this.deleteFile(this.config.maxFiles);
+    for (let index = this.config.maxFiles - 1; index >= 0; index--) {
+      const filePath = this.getFilePath(index);
+      if (fs.existsSync(filePath)) {
+        fs.renameSync(filePath, this.getFilePath(index + 1));
+      }
+    }
+    this.currentSize = 0;
+    this.prune();
+  }
+
+  /**
+   * Delete files whose newest event is past the retention period
+   */
+  private prune(): void {
+    const start = this.getRetentionStart();
+    for (let index = 0; index <= this.config.maxFiles; index++) {
+      const stats = this.getFileStats(index);
+      if (stats && stats.mtimeMs < start) {
+        this.deleteFile(index);
+      }
+    }
+  }
+
+  private readFile(index: number): BlockEvent[] {
+    const filePath = this.getFilePath(index);
+    try {
+      if (!fs.existsSync(filePath)) return [];
+      return this.parseLines(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      console.error('Failed to read block log:', error);
+      return [];
+    }
+  }
+
+  private async readFileAsync(index: number): Promise<BlockEvent[]> {
+    try {
+      return this.parseLines(await fs.promises.readFile(this.getFilePath(index), 'utf-8'));
+    } catch (error) {
+      // The file can be rotated away between stat and read
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read block log:', error);
+      }
+      return [];
+    }
+  }
+
+  private parseLines(data: string): BlockEvent[] {
+    const events: BlockEvent[] = [];
+    for (const line of data.split('\n')) {
+      if (!line) continue;
+      try {
+        events.push(JSON.parse(line) as BlockEvent);
+      } catch {
+        // Skip a line cut short by a crash
+      }
+    }
+    return events;
+  }
+
+  private deleteFile(index: number): void {
+    try {
+      fs.rmSync(this.getFilePath(index), { force: true });
+    } catch (error) {
+      console.error('Failed to delete block log file:', error);
+    }
+  }
+
+  private getFileStats(index: number): fs.Stats | null {
+    try {
+      return fs.statSync(this.getFilePath(index));
+    } catch {
+      return null;
+    }
+  }
+
+  private getFilePath(index: number): string {
+    return path.join(this.directory, index === 0 ? 'block-log.jsonl' : `block-log.${index}.jsonl`);
+  }
+}
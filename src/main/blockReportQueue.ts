@@ -0,0 +1,100 @@
+/**
+ * Block Report Queue
+ * Local, per-profile queue of blocks reported as mistakes from the block page
+ *
+ * Reports stay on this machine until the user exports them (JSON) for the
+ * support desk or clears them from Safe Browsing settings.
+ */
+
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { BlockReport } from '../shared/types';
+import type { BlockEvent } from './blacklistManager';
+
+const MAX_REPORTS = 500;
+
+export class BlockReportQueue {
+  private reports: BlockReport[] = [];
+  private dataPath: string;
+
+  constructor(profileDataPath?: string) {
+    const basePath = profileDataPath || app.getPath('userData');
+    this.dataPath = path.join(basePath, 'block-reports.json');
+    this.load();
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.dataPath)) {
+        const data = JSON.parse(fs.readFileSync(this.dataPath, 'utf-8'));
+        this.reports = Array.isArray(data) ? data : [];
+      }
+    } catch (error) {
+      console.error('Failed to load block reports:', error);
+      this.reports = [];
+    }
+  }
+
+  private save(): void {
+    try {
+      const dir = path.dirname(this.dataPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      fs.writeFileSync(this.dataPath, JSON.stringify(this.reports, null, 2));
+    } catch (error) {
+      console.error('Failed to save block reports:', error);
+    }
+  }
+
+  /**
+   * Record a block as a reported mistake; reporting the same URL twice keeps one entry
+   */
+  add(event: BlockEvent): BlockReport {
+    const existing = this.reports.find((report) => report.url === event.url);
+    if (existing) {
+      return existing;
+    }
+
+    const report: BlockReport = {
+      id: uuidv4(),
+      url: event.url,
+      domain: event.domain,
+      matchType: event.matchType,
+      matchedPattern: event.matchedPattern,
+      sourceCategories: event.sourceCategories,
+      browserMode: event.browserMode,
+      blockedAt: event.timestamp,
+      reportedAt: new Date().toISOString(),
+    };
+
+    this.reports.push(report);
+    if (this.reports.length > MAX_REPORTS) {
+      this.reports = this.reports.slice(-MAX_REPORTS);
+    }
+    this.save();
+
+    return report;
+  }
+
+  getAll(): BlockReport[] {
+    return [...this.reports];
+  }
+
+  clear(): void {
+    this.reports = [];
+    this.save();
+  }
+
+  /**
+   * Write all reports to a JSON file for the support desk
+   */
+  exportTo(filePath: string): void {
+    fs.writeFileSync(
+      filePath,
+      JSON.stringify({ exportedAt: new Date().toISOString(), reports: this.reports }, null, 2)
+    );
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Blocklist Index
+ * Reader for the compact binary blocklist written by scripts/update-blocklist.js (blacklist.bin)
+ *
+ * Parsing the compiled YAML and building the domain trie delays cold start by
+ * seconds on older machines. The binary index is loaded with one file read: the
+ * domain table is binary-searched in place, so nothing is rebuilt at startup.
+ *
+ * Layout (little-endian):
+ *   0   "JBBL"                  magic
+ *   4   uint32                  format version (BLOCKLIST_INDEX_VERSION)
+ *   8   uint32                  header length in bytes
+ *   12  header JSON (UTF-8)     padded with spaces to a multiple of 4 bytes
+ *   ..  uint32[domains + 1]     start offset of each domain in the domain text
+ *   ..  uint32[domains]         category bitmask per domain (bits index header.categories)
+ *   ..  domain text (ASCII)     domains with reversed labels ("com.example.ads"), sorted, concatenated
+ *   ..  lists JSON (UTF-8)      { blocked_keywords, blocked_urls, network_filters }
+ *
+ * Kept free of Electron imports so scripts/benchmark-blocklist.js can load it.
+ */
+
+import { DomainMatch, DomainMatcher } from './blocklistMatcher';
+
+export const BLOCKLIST_INDEX_MAGIC = 'JBBL';
+export const BLOCKLIST_INDEX_VERSION = 1;
+
+export interface BlocklistIndexHeader {
+  format_version: number;
+  generated_at: string;
+  source_hashes: Record<string, string>;   // Source ID -> SHA-256 of the fetched feed
+  counts: {
+    domains: number;
+    keywords: number;
+    urls: number;
+    network_filters: number;
+  };
+  categories: string[];                    // Category names in bit order
+  category_counts: Record<string, number>;
+  metadata?: unknown;                      // Same shape as the YAML metadata block
+  sections: {
+    domain_text: number;                   // Byte lengths
+    lists: number;
+  };
+}
+
+export interface BlocklistIndexLists {
+  blocked_keywords: string[];
+  blocked_urls: string[];
+  network_filters: Array<{ source: string; categories: string[]; filters: string[] }>;
+}
+
+export interface BlocklistIndex {
+  header: BlocklistIndexHeader;
+  domains: SortedDomainIndex;
+  lists: BlocklistIndexLists;
+}
+
+/**
+ * Domain list stored as sorted reversed-label strings; a hostname is matched by
+ * binary-searching each of its parent domains.
+ */
+export class SortedDomainIndex implements DomainMatcher {
+  private text: string;
+  private offsets: Uint32Array;
+  private masks: Uint32Array;
+  private categoryNames: string[];
+  private categoryCounts: Record<string, number>;
+
+  constructor(
+    text: string,
+    offsets: Uint32Array,
+    masks: Uint32Array,
+    categoryNames: string[],
+    categoryCounts: Record<string, number>
+  ) {
+    this.text = text;
+    this.offsets = offsets;
+    this.masks = masks;
+    this.categoryNames = categoryNames;
+    this.categoryCounts = categoryCounts;
+  }
+
+  get size(): number {
+    return this.masks.length;
+  }
+
+  /**
+   * Same semantics as DomainTrie.match: an exact listing wins, otherwise the closest
+   * listed parent; entries whose categories are all disabled are skipped.
+   */
+  match(hostname: string, disabledCategories: number = 0): DomainMatch | null {
+    const labels = hostname.split('.');
+    let reversed = '';
+    let parentMatch: { domain: string; categories: number } | null = null;
+
+    for (let i = labels.length - 1; i >= 0; i--) {
+      reversed = reversed ? `${reversed}.${labels[i]}` : labels[i];
+      const index = this.find(reversed);
+      if (index < 0) continue;
+
+      const mask = this.masks[index];
+      const enabled = mask === 0 || (mask & ~disabledCategories) !== 0;
+      if (i === 0) {
+        if (enabled) {
+          return { domain: hostname, exact: true, categories: this.getCategoryNames(mask & ~disabledCategories) };
+        }
+        break;
+      }
+      if (enabled) {
+        parentMatch = { domain: labels.slice(i).join('.'), categories: mask & ~disabledCategories };
+      }
+    }
+
+    return parentMatch
+      ? { domain: parentMatch.domain, exact: false, categories: this.getCategoryNames(parentMatch.categories) }
+      : null;
+  }
+
+  getCategoryMask(categories: Iterable<string>): number {
+    let mask = 0;
+    for (const category of categories) {
+      const bit = this.categoryNames.indexOf(category);
+      if (bit >= 0) mask |= 1 << bit;
+    }
+    return mask;
+  }
+
+  getCategoryCounts(): Record<string, number> {
+    return { ...this.categoryCounts };
+  }
+
+  values(): string[] {
+    const result: string[] = [];
+    for (let i = 0; i < this.size; i++) {
+      result.push(this.entry(i).split('.').reverse().join('.'));
+    }
+    return result;
+  }
+
+  private entry(index: number): string {
+    return this.text.slice(this.offsets[index], this.offsets[index + 1]);
+  }
+
+  private find(reversed: string): number {
+    let low = 0;
+    let high = this.size - 1;
+    while (low <= high) {
+      const mid = (low + high) >>> 1;
+      const entry = this.entry(mid);
+      if (entry === reversed) return mid;
+      if (entry < reversed) {
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return -1;
+  }
+
+  private getCategoryNames(mask: number): string[] {
+    return this.categoryNames.filter((_, bit) => mask & (1 << bit));
+  }
+}
+
+/**
+ * Parse a blacklist.bin buffer; throws if the file is not a supported index
+ */
+export function readBlocklistIndex(buffer: Buffer): BlocklistIndex {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== BLOCKLIST_INDEX_MAGIC) {
+    throw new Error('Not a blocklist index');
+  }
+
+  const version = buffer.readUInt32LE(4);
+  if (version !== BLOCKLIST_INDEX_VERSION) {
+    throw new Error(`Unsupported blocklist index version ${version}`);
+  }
+
+  const headerLength = buffer.readUInt32LE(8);
+  const header = JSON.parse(buffer.toString('utf8', 12, 12 + headerLength)) as BlocklistIndexHeader;
+  const count = header.counts.domains;
+
+  let offset = 12 + headerLength;
+  const readUint32Array = (length: number): Uint32Array => {
+    // Copy into an aligned buffer; Node may hand out a Buffer at any byte offset
+    const start = buffer.byteOffset + offset;
+    offset += length * 4;
+    if (offset > buffer.length) throw new Error('Truncated blocklist index');
+    return new Uint32Array(buffer.buffer.slice(start, start + length * 4));
+  };
+
+  const offsets = readUint32Array(count + 1);
+  const masks = readUint32Array(count);
+
+  if (offset + header.sections.domain_text + header.sections.lists > buffer.length) {
+    throw new Error('Truncated blocklist index');
+  }
+
+  const text = buffer.toString('latin1', offset, offset + header.sections.domain_text);
+  offset += header.sections.domain_text;
+  const lists = JSON.parse(buffer.toString('utf8', offset, offset + header.sections.lists)) as BlocklistIndexLists;
+
+  return {
+    header,
+    domains: new SortedDomainIndex(text, offsets, masks, header.categories, header.category_counts),
+    lists,
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * Blocklist Matcher
+ * Fast lookup structures used by BlacklistManager on every request
+ *
+ * - DomainTrie: blocked domains stored by reversed labels (com -> example -> ads),
+ *   so a hostname is checked in time proportional to its label count instead of
+ *   the size of the list. Each domain carries its source categories as a bitmask,
+ *   so disabled categories can be skipped without rebuilding the trie.
+ * - PatternMatcher: Aho-Corasick automaton for substring patterns (blocked
+ *   keywords and URLs), so a URL is scanned once regardless of pattern count.
+ *
+ * blocklistIndex.ts reads the same domains from the compiled binary index instead.
+ *
+ * Kept free of Electron imports so scripts/benchmark-blocklist.js can load it.
+ */
+
+interface DomainTrieNode {
+  children: Map<string, DomainTrieNode>;
+  terminal: boolean;
+  categories: number;   // Bitmask into DomainTrie.categoryNames; 0 = uncategorized
+}
+
+export interface DomainMatch {
+  domain: string;         // The listed domain that matched
+  exact: boolean;         // true if the hostname itself is listed, false for a subdomain match
+  categories: string[];   // Enabled source categories of the listed domain
+}
+
+/**
+ * Read-only domain lookup shared by DomainTrie and the binary index (SortedDomainIndex)
+ */
+export interface DomainMatcher {
+  readonly size: number;
+  match(hostname: string, disabledCategories?: number): DomainMatch | null;
+  getCategoryMask(categories: Iterable<string>): number;
+  getCategoryCounts(): Record<string, number>;
+  values(): string[];
+}
+
+// Category bits fit in a 32-bit mask
+const MAX_CATEGORIES = 31;
+
+export class DomainTrie implements DomainMatcher {
+  private root: DomainTrieNode = { children: new Map(), terminal: false, categories: 0 };
+  private count: number = 0;
+  private categoryNames: string[] = [];
+  private categoryCounts: number[] = [];
+
+  constructor(domains: Iterable<string> = []) {
+    for (const domain of domains) {
+      this.add(domain);
+    }
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  add(domain: string, categories: string[] = []): void {
+    const labels = domain.split('.');
+    let node = this.root;
+
+    for (let i = labels.length - 1; i >= 0; i--) {
+      let child = node.children.get(labels[i]);
+      if (!child) {
+        child = { children: new Map(), terminal: false, categories: 0 };
+        node.children.set(labels[i], child);
+      }
+      node = child;
+    }
+
+    if (!node.terminal) {
+      node.terminal = true;
+      this.count++;
+    }
+
+    const mask = this.getCategoryMask(categories, true);
+    for (let bit = 0; bit < this.categoryNames.length; bit++) {
+      if ((mask & ~node.categories) & (1 << bit)) this.categoryCounts[bit]++;
+    }
+    node.categories |= mask;
+  }
+
+  has(domain: string): boolean {
+    const match = this.match(domain);
+    return match !== null && match.exact;
+  }
+
+  /**
+   * Find the listed domain covering a hostname. An exact listing wins; otherwise
+   * the closest listed parent domain is returned. Domains whose categories are
+   * all in disabledCategories are skipped; uncategorized domains always match.
+   */
+  match(hostname: string, disabledCategories: number = 0): DomainMatch | null {
+    let node = this.root;
+    let end = hostname.length;
+    let parentMatch = -1;   // Start index of the closest listed parent domain
+    let parentCategories = 0;
+
+    while (end > 0) {
+      const start = hostname.lastIndexOf('.', end - 1) + 1;
+      const child = node.children.get(hostname.slice(start, end));
+      if (!child) break;
+
+      node = child;
+      const enabled = this.isEnabled(node, disabledCategories);
+      if (start === 0) {
+        if (enabled) {
+          return { domain: hostname, exact: true, categories: this.getCategoryNames(node.categories & ~disabledCategories) };
+        }
+        break;
+      }
+      if (enabled) {
+        parentMatch = start;
+        parentCategories = node.categories & ~disabledCategories;
+      }
+      end = start - 1;
+    }
+
+    return parentMatch >= 0
+      ? { domain: hostname.slice(parentMatch), exact: false, categories: this.getCategoryNames(parentCategories) }
+      : null;
+  }
+
+  /**
+   * Bitmask for a set of category names, for use as match()'s disabledCategories
+   */
+  getCategoryMask(categories: Iterable<string>, register: boolean = false): number {
+    let mask = 0;
+    for (const category of categories) {
+      let bit = this.categoryNames.indexOf(category);
+      if (bit < 0 && register && this.categoryNames.length < MAX_CATEGORIES) {
+        bit = this.categoryNames.length;
+        this.categoryNames.push(category);
+        this.categoryCounts.push(0);
+      }
+      if (bit >= 0) mask |= 1 << bit;
+    }
+    return mask;
+  }
+
+  /**
+   * Number of listed domains per category
+   */
+  getCategoryCounts(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    this.categoryNames.forEach((name, bit) => {
+      counts[name] = this.categoryCounts[bit];
+    });
+    return counts;
+  }
+
+  private isEnabled(node: DomainTrieNode, disabledCategories: number): boolean {
+    return node.terminal && (node.categories === 0 || (node.categories & ~disabledCategories) !== 0);
+  }
+
+  private getCategoryNames(mask: number): string[] {
+    return this.categoryNames.filter((_, bit) => mask & (1 << bit));
+  }
+
+  /**
+   * All listed domains (for stats and the settings UI)
+   */
+  values(): string[] {
+    const result: string[] = [];
+    const walk = (node: DomainTrieNode, suffix: string): void => {
+      if (node.terminal) result.push(suffix);
+      for (const [label, child] of node.children) {
+        walk(child, suffix ? `${label}.${suffix}` : label);
+      }
+    };
+    walk(this.root, '');
+    return result;
+  }
+}
+
+export class PatternMatcher {
+  private transitions: Array<Map<number, number>> = [new Map()];
+  private failure: number[] = [0];
+  private output: number[] = [-1];   // Pattern index ending at (or reachable by failure from) each state
+  private patterns: string[] = [];
+
+  constructor(patterns: Iterable<string>) {
+    for (const pattern of patterns) {
+      if (pattern.length > 0) this.addPattern(pattern);
+    }
+    this.buildFailureLinks();
+  }
+
+  get size(): number {
+    return this.patterns.length;
+  }
+
+  /**
+   * Return the first pattern found in the text, or null
+   */
+  find(text: string): string | null {
+    if (this.patterns.length === 0) return null;
+
+    let state = 0;
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      while (state !== 0 && !this.transitions[state].has(code)) {
+        state = this.failure[state];
+      }
+      state = this.transitions[state].get(code) ?? 0;
+
+      if (this.output[state] >= 0) {
+        return this.patterns[this.output[state]];
+      }
+    }
+    return null;
+  }
+
+  private addPattern(pattern: string): void {
+    let state = 0;
+    for (let i = 0; i < pattern.length; i++) {
+      const code = pattern.charCodeAt(i);
+      let next = this.transitions[state].get(code);
+      if (next === undefined) {
+        next = this.transitions.length;
+        this.transitions.push(new Map());
+        this.failure.push(0);
+        this.output.push(-1);
+        this.transitions[state].set(code, next);
+      }
+      state = next;
+    }
+
+    if (this.output[state] < 0) {
+      this.output[state] = this.patterns.length;
+      this.patterns.push(pattern);
+    }
+  }
+
+  private buildFailureLinks(): void {
+    // Breadth-first, so every failure target is finished before it is used
+    const queue: number[] = [];
+    for (const child of this.transitions[0].values()) {
+      queue.push(child);
+    }
+
+    for (let head = 0; head < queue.length; head++) {
+      const state = queue[head];
+      for (const [code, child] of this.transitions[state]) {
+        let fallback = this.failure[state];
+        while (fallback !== 0 && !this.transitions[fallback].has(code)) {
+          fallback = this.failure[fallback];
+        }
+        const target = this.transitions[fallback].get(code);
+        this.failure[child] = target !== undefined && target !== child ? target : 0;
+
+        if (this.output[child] < 0) {
+          this.output[child] = this.output[this.failure[child]];
+        }
+        queue.push(child);
+      }
+    }
+  }
+}
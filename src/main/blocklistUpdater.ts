@@ -0,0 +1,301 @@
+/**
+ * Blocklist Updater
+ * Downloads signed incremental blocklist updates between releases
+ *
+ * Build-time lists go stale quickly (phishing domains rarely live more than a few
+ * days), so the browser asks the update endpoint for the delta from its current
+ * list version on a schedule:
+ *
+ *   GET <endpoint>/deltas/<version>.json    (404 = already up to date)
+ *
+ *   {
+ *     "payload": {
+ *       "fromVersion": 1735689600,
+ *       "toVersion": 1735776000,
+ *       "generatedAt": "2025-01-02T00:00:00Z",
+ *       "added": [ { "domain": "new-phish.example", "categories": ["phishing"] } ],
+ *       "removed": [ "dead-phish.example" ]
+ *     },
+ *     "keyId": "jubilee-blocklist-1",
+ *     "signature": "<base64 signature of the canonical JSON of payload>"
+ *   }
+ *
+ * A delta is applied only if its signature verifies against a trusted key and it
+ * starts at the current version. BlacklistManager applies it atomically.
+ *
+ * Trusted key file format:
+ *   { "keys": [ { "keyId": "...", "publicKey": "-----BEGIN PUBLIC KEY-----...", "revoked": false } ] }
+ *
+ * As with InspireTrustedKeys, the first definition of a keyId wins (shipped files are
+ * read before userData) and a revocation in any file is permanent.
+ */
+
+import { app, net } from 'electron';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { canonicalJson } from './inspireRegistrations';
+import { SettingsManager } from './settingsManager';
+import { BlocklistUpdateConfig, DEFAULT_BLOCKLIST_UPDATE_CONFIG } from '../shared/types';
+
+export interface BlocklistDeltaPayload {
+  fromVersion: number;
+  toVersion: number;
+  generatedAt: string;
+  added: Array<{ domain: string; categories?: string[] }>;
+  removed: string[];
+}
+
+export interface SignedBlocklistDelta {
+  payload: BlocklistDeltaPayload;
+  keyId: string;
+  signature: string;        // Base64
+}
+
+/**
+ * What the updater needs from BlacklistManager
+ */
+export interface BlocklistUpdateTarget {
+  getBlocklistVersion(): number | null;
+  applyDelta(delta: BlocklistDeltaPayload): boolean;
+}
+
+interface BlocklistUpdateKey {
+  keyId: string;
+  publicKey: string;        // PEM (Ed25519, ECDSA or RSA)
+  revoked?: boolean;
+}
+
+export class BlocklistUpdateKeys {
+  private keys: Map<string, BlocklistUpdateKey> = new Map(); // key: keyId
+  private revokedKeyIds: Set<string> = new Set();
+
+  constructor(fileName: string) {
+    const possiblePaths = [
+      // Development: project resources folder
+      path.join(process.cwd(), 'resources', fileName),
+      // Production: in resources folder
+      path.join(process.resourcesPath || '', fileName),
+      // User data directory
+      path.join(app.getPath('userData'), fileName),
+    ];
+
+    for (const keysPath of possiblePaths) {
+      this.loadFile(keysPath);
+    }
+  }
+
+  /**
+   * Number of keys that can still verify deltas
+   */
+  get size(): number {
+    return Array.from(this.keys.keys()).filter((keyId) => !this.revokedKeyIds.has(keyId)).length;
+  }
+
+  private loadFile(keysPath: string): void {
+    try {
+      if (!fs.existsSync(keysPath)) return;
+
+      const data = JSON.parse(fs.readFileSync(keysPath, 'utf-8')) as { keys?: BlocklistUpdateKey[] };
+      for (const key of data.keys ?? []) {
+        if (!key.keyId) continue;
+        if (key.revoked) {
+          this.revokedKeyIds.add(key.keyId);
+        } else if (key.publicKey && !this.keys.has(key.keyId)) {
+          this.keys.set(key.keyId, key);
+        }
+      }
+      console.log(`[BlocklistUpdater] Loaded update keys from ${keysPath}`);
+    } catch (error) {
+      console.error(`[BlocklistUpdater] Failed to load update keys from ${keysPath}:`, error);
+    }
+  }
+
+  verify(delta: SignedBlocklistDelta): { valid: boolean; error?: string } {
+    const key = this.keys.get(delta.keyId);
+    if (!key || this.revokedKeyIds.has(delta.keyId)) {
+      return { valid: false, error: `Key "${delta.keyId}" is not trusted` };
+    }
+
+    try {
+      const publicKey = crypto.createPublicKey(key.publicKey);
+      // Ed25519/Ed448 sign the message directly; RSA and ECDSA keys sign a SHA-256 digest
+      const algorithm = publicKey.asymmetricKeyType?.startsWith('ed') ? null : 'sha256';
+      const valid = crypto.verify(
+        algorithm,
+        Buffer.from(canonicalJson(delta.payload), 'utf-8'),
+        publicKey,
+        Buffer.from(delta.signature, 'base64')
+      );
+      return valid ? { valid: true } : { valid: false, error: 'Signature does not match the delta' };
+    } catch (error) {
+      return { valid: false, error: error instanceof Error ? error.message : 'Signature verification failed' };
+    }
+  }
+}
+
+export class BlocklistUpdater {
+  private target: BlocklistUpdateTarget;
+  private settingsManager: SettingsManager;
+  private config: BlocklistUpdateConfig;
+  private keys: BlocklistUpdateKeys;
+  private checkTimer: NodeJS.Timeout | null = null;
+  private checking: boolean = false;
+  private lastCheck: { at: string; error?: string } | null = null;
+
+  constructor(
+    target: BlocklistUpdateTarget,
+    settingsManager: SettingsManager,
+    config: BlocklistUpdateConfig = DEFAULT_BLOCKLIST_UPDATE_CONFIG
+  ) {
+    this.target = target;
+    this.settingsManager = settingsManager;
+    this.config = config;
+    this.keys = new BlocklistUpdateKeys(config.trustedKeysFile);
+  }
+
+  /**
+   * Start scheduled checks (first one shortly after startup)
+   */
+  start(): void {
+    if (this.keys.size === 0) {
+      console.warn('[BlocklistUpdater] No trusted update keys installed, incremental updates are disabled');
+      return;
+    }
+    this.scheduleNextCheck(this.config.initialDelay);
+  }
+
+  stop(): void {
+    if (this.checkTimer) {
+      clearTimeout(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+
+  getLastCheck(): { at: string; error?: string } | null {
+    return this.lastCheck;
+  }
+
+  /**
+   * Apply every available delta from the current version; returns the number applied
+   */
+  async checkNow(): Promise<number> {
+    if (this.checking) return 0;
+    this.checking = true;
+
+    let applied = 0;
+    let error: string | undefined;
+    try {
+      const endpoint = this.getEndpoint();
+      let version = this.target.getBlocklistVersion();
+      if (!endpoint || version === null) {
+        return 0;
+      }
+
+      while (applied < this.config.maxDeltasPerCheck) {
+        const delta = await this.fetchDelta(`${endpoint}/deltas/${version}.json`);
+        if (!delta) break;
+
+        const problem = this.validate(delta, version);
+        if (problem) {
+          error = problem;
+          console.warn(`[BlocklistUpdater] Rejected delta from version ${version}: ${problem}`);
+          break;
+        }
+
+        if (!this.target.applyDelta(delta.payload)) {
+          error = 'Delta could not be applied';
+          break;
+        }
+
+        console.log(`[BlocklistUpdater] Updated blocklist ${version} -> ${delta.payload.toVersion} (+${delta.payload.added.length} / -${delta.payload.removed.length})`);
+        version = delta.payload.toVersion;
+        applied++;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      console.error('[BlocklistUpdater] Update check failed:', err);
+    } finally {
+      this.lastCheck = { at: new Date().toISOString(), error };
+      this.checking = false;
+    }
+
+    return applied;
+  }
+
+  private getEndpoint(): string {
+    const configured = this.settingsManager.getSetting('privacy').blocklistUpdateUrl?.trim();
+    return (configured || this.config.endpoint).replace(/\/+$/, '');
+  }
+
+  private validate(delta: SignedBlocklistDelta, version: number): string | null {
+    const payload = delta.payload;
+    if (!payload || !Array.isArray(payload.added) || !Array.isArray(payload.removed)) {
+      return 'Malformed delta';
+    }
+    if (payload.fromVersion !== version || !(payload.toVersion > version)) {
+      return `Delta covers ${payload.fromVersion} -> ${payload.toVersion}, expected a delta from ${version}`;
+    }
+
+    const verification = this.keys.verify(delta);
+    return verification.valid ? null : verification.error || 'Invalid signature';
+  }
+
+  private scheduleNextCheck(delay: number): void {
+    this.stop();
+    this.checkTimer = setTimeout(async () => {
+      await this.checkNow();
+      this.scheduleNextCheck(this.config.checkInterval);
+    }, delay);
+  }
+
+  /**
+   * GET a delta; resolves null when there is none (404), throws on other failures
+   */
+  private fetchDelta(url: string): Promise<SignedBlocklistDelta | null> {
+    return new Promise((resolve, reject) => {
+      const request = net.request({ method: 'GET', url });
+      const chunks: Buffer[] = [];
+      let settled = false;
+
+      const finish = (error: Error | null, value: SignedBlocklistDelta | null = null) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        if (error) {
+          reject(error);
+        } else {
+          resolve(value);
+        }
+      };
+
+      const timer = setTimeout(() => {
+        request.abort();
+        finish(new Error(`Timed out fetching ${url}`));
+      }, this.config.requestTimeout);
+
+      request.on('response', (response) => {
+        if (response.statusCode === 404) {
+          finish(null);
+          return;
+        }
+        if (response.statusCode !== 200) {
+          finish(new Error(`HTTP ${response.statusCode} from ${url}`));
+          return;
+        }
+
+        response.on('data', (chunk) => chunks.push(chunk));
+        response.on('end', () => {
+          try {
+            finish(null, JSON.parse(Buffer.concat(chunks).toString('utf-8')) as SignedBlocklistDelta);
+          } catch {
+            finish(new Error(`Invalid JSON from ${url}`));
+          }
+        });
+        response.on('error', () => finish(new Error(`Failed reading ${url}`)));
+      });
+      request.on('error', (error) => finish(error));
+      request.end();
+    });
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Inspire Access Control
+ * Enforces InspireMetadata.requiresIdentity and permissions before a location loads
+ *
+ * Entries in metadata.permissions that name a ParticipationFeature (e.g. "round_table",
+ * "prayer_rooms") are checked with AuthenticationManager.checkPermission. Signed-out
+ * users are asked to sign in; the location loads once sign-in and every check pass.
+ *
+ * Protocol requests don't say which tab or frame they come from, so the navigation
+ * interceptor notes each tab's page navigation (noteNavigation). Only a page request
+ * that was noted is reloaded after sign-in, in the tab that made it; frames and
+ * subresources of a gated host show the prompt without a page to return to.
+ */
+
+import { AuthenticationManager } from './authenticationManager';
+import { InspireMetadata, ParticipationFeature } from '../shared/types';
+
+export interface InspireAccessDecision {
+  allowed: boolean;
+  requiresSignIn: boolean;
+  feature?: ParticipationFeature;
+  reason?: string;
+}
+
+const PARTICIPATION_FEATURES: ParticipationFeature[] = [
+  'round_table',
+  'chat',
+  'video',
+  'prayer_rooms',
+  'domain_management',
+  'saved_notes',
+  'cross_device_sync',
+  'community_moderation',
+];
+
+// Subresources of a gated page would otherwise re-open the sign-in prompt for every request
+const SIGN_IN_PROMPT_INTERVAL = 5000;
+
+export class InspireAccessControl {
+  private authManager: AuthenticationManager;
+  private lastPromptAt: Map<string, number> = new Map(); // key: location address
+  private navigations: Map<string, number> = new Map(); // key: page URL, value: the tab's webContentsId
+
+  constructor(authManager: AuthenticationManager) {
+    this.authManager = authManager;
+  }
+
+  /**
+   * Participation features a location requires
+   */
+  getRequiredFeatures(metadata?: InspireMetadata): ParticipationFeature[] {
+    return (metadata?.permissions ?? []).filter((permission): permission is ParticipationFeature =>
+      PARTICIPATION_FEATURES.includes(permission as ParticipationFeature)
+    );
+  }
+
+  /**
+   * Record a tab's page (mainFrame) request for a web space URL, before the protocol handler sees it
+   */
+  noteNavigation(url: string, webContentsId: number): void {
+    this.navigations.set(url, webContentsId);
+  }
+
+  /**
+   * Check whether the current user may load a location
+   * When sign-in is needed the sign-in UI is requested with the location's feature.
+   */
+  async checkAccess(metadata: InspireMetadata | undefined, url: string): Promise<InspireAccessDecision> {
+    // Every request reaches this check once, so the noted navigation is consumed here
+    const webContentsId = this.navigations.get(url);
+    this.navigations.delete(url);
+
+    const features = this.getRequiredFeatures(metadata);
+    if (!metadata?.requiresIdentity && features.length === 0) {
+      return { allowed: true, requiresSignIn: false };
+    }
+
+    if (!this.authManager.isAuthenticated()) {
+      const feature = features[0];
+      this.promptSignIn(url, feature, webContentsId);
+      return {
+        allowed: false,
+        requiresSignIn: true,
+        feature,
+        reason: `Sign in to Jubilee to visit ${metadata?.name ?? 'this location'}`,
+      };
+    }
+
+    for (const feature of features) {
+      const result = await this.authManager.checkPermission(feature);
+      if (!result.allowed) {
+        return {
+          allowed: false,
+          requiresSignIn: false,
+          feature,
+          reason: result.reason || 'You do not have permission to visit this location',
+        };
+      }
+    }
+
+    return { allowed: true, requiresSignIn: false };
+  }
+
+  /**
+   * Ask for sign-in; a tab's page request is reloaded in that tab once sign-in succeeds
+   */
+  private promptSignIn(url: string, feature?: ParticipationFeature, webContentsId?: number): void {
+    let key = url;
+    try {
+      key = new URL(url).host || url;
+    } catch {
+      // Keep the raw URL as the key
+    }
+
+    const now = Date.now();
+    const last = this.lastPromptAt.get(key) ?? 0;
+    if (now - last < SIGN_IN_PROMPT_INTERVAL) return;
+
+    this.lastPromptAt.set(key, now);
+    if (webContentsId !== undefined) {
+      this.authManager.requestSignIn(feature, { url, webContentsId });
+    } else {
+      this.authManager.requestSignIn(feature);
+    }
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Inspire Bundle Loader
+ * Registers local .inspire bundles described by a declarative manifest
+ *
+ * A bundle is a folder containing inspire.yaml (or inspire.yml / inspire.json):
+ *
+ *   study.inspire/
+ *     inspire.yaml
+ *     index.html
+ *     pages/getting-started.html
+ *     assets/logo.png
+ *
+ * Bundles are discovered in the app resources folder and in the active
+ * profile's "inspire-bundles" folder. A bundle may replace an earlier bundle
+ * with the same address, but not a built-in location, and its internal address
+ * may not belong to another location. See docs/inspire-bundles.md.
+ */
+
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { InspireResolver, InspireLocation } from './inspireResolver';
+import { InspireMetadata, InspireMirror } from '../shared/types';
+
+/**
+ * Manifest file format
+ */
+export interface InspireBundleManifest {
+  address: string;                    // Public address, e.g. "study.inspire"
+  internalAddress?: string;           // Defaults to "{domain}.ins"
+  metadata: InspireMetadata;
+  index?: string;                     // Page served at "/"
+  routes?: Record<string, string>;    // Path -> page file, e.g. { '/getting-started': 'pages/getting-started.html' }
+  assets?: string;                    // Folder served for paths without a route
+  notFound?: string;                  // Custom 404 page
+  remoteUrl?: string;                 // Hosted location instead of local pages (no index, routes or assets)
+  mirrors?: InspireMirror[];          // Distributed location mirrors
+  integrity?: Record<string, string>; // Published hashes per path
+}
+
+export interface InspireBundleLoadResult {
+  loaded: string[];                   // Addresses registered
+  errors: { bundlePath: string; error: string }[];
+}
+
+const MANIFEST_FILES = ['inspire.yaml', 'inspire.yml', 'inspire.json'];
+const BUNDLES_FOLDER = 'inspire-bundles';
+
+export class InspireBundleLoader {
+  private inspireResolver: InspireResolver;
+  private searchPaths: string[];
+  private bundleAddresses: Set<string> = new Set(); // Public addresses registered from bundles
+
+  constructor(inspireResolver: InspireResolver, profileDataPath?: string) {
+    this.inspireResolver = inspireResolver;
+    this.searchPaths = [
+      // Development: project resources folder
+      path.join(process.cwd(), 'resources', BUNDLES_FOLDER),
+      // Production: in resources folder
+      path.join(process.resourcesPath || '', BUNDLES_FOLDER),
+      // Profile data directory (user-installed bundles override bundled ones)
+      path.join(profileDataPath || app.getPath('userData'), BUNDLES_FOLDER),
+    ];
+  }
+
+  /**
+   * Register every bundle found in the search paths
+   */
+  loadAll(): InspireBundleLoadResult {
+    const result: InspireBundleLoadResult = { loaded: [], errors: [] };
+
+    for (const searchPath of this.searchPaths) {
+      if (!fs.existsSync(searchPath)) continue;
+
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(searchPath, { withFileTypes: true });
+      } catch (error) {
+        console.error(`[InspireBundles] Cannot read ${searchPath}:`, error);
+        continue;
+      }
+
+      for (const entry of entries) {
+        if (!entry.isDirectory()) continue;
+
+        const bundlePath = path.join(searchPath, entry.name);
+        try {
+          const location = this.loadBundle(bundlePath);
+          if (!location) continue;
+
+          this.inspireResolver.replaceLocation(location);
+          this.bundleAddresses.add(location.publicAddress);
+          result.loaded.push(location.publicAddress);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`[InspireBundles] Skipping ${bundlePath}: ${message}`);
+          result.errors.push({ bundlePath, error: message });
+        }
+      }
+    }
+
+    if (result.loaded.length > 0) {
+      console.log(`[InspireBundles] Registered ${result.loaded.length} bundles: ${result.loaded.join(', ')}`);
+    }
+    return result;
+  }
+
+  /**
+   * Build a location from a bundle folder; returns null if the folder has no manifest
+   */
+  loadBundle(bundlePath: string): InspireLocation | null {
+    const manifestFile = MANIFEST_FILES
+      .map((name) => path.join(bundlePath, name))
+      .find((file) => fs.existsSync(file));
+    if (!manifestFile) return null;
+
+    const raw = fs.readFileSync(manifestFile, 'utf-8');
+    const manifest = (manifestFile.endsWith('.json') ? JSON.parse(raw) : yaml.load(raw)) as InspireBundleManifest;
+    this.validate(manifest);
+
+    // "guide.insp" is registered under its full type name, "guide.inspire"
+    const [domain, type] = manifest.address.trim().toLowerCase().split('.');
+    const address = `${domain}.${this.inspireResolver.findWebSpaceType(type)!.fullName}`;
+
+    const internalAddress = manifest.internalAddress?.toLowerCase() || `${domain}.ins`;
+    const conflict = this.inspireResolver.checkAddresses(address, internalAddress);
+    if (conflict) {
+      throw new Error(conflict);
+    }
+    if (this.inspireResolver.getLocation(address) && !this.bundleAddresses.has(address)) {
+      throw new Error(`${address} is a built-in location`);
+    }
+
+    const routes: Record<string, string> = {};
+    for (const [routePath, file] of Object.entries(manifest.routes ?? {})) {
+      const key = `/${routePath.replace(/^\/+|\/+$/g, '')}`;
+      routes[key] = this.readBundleFile(bundlePath, file);
+    }
+
+    return {
+      publicAddress: address,
+      internalAddress,
+      metadata: manifest.metadata,
+      content: manifest.index ? this.readBundleFile(bundlePath, manifest.index) : undefined,
+      routes: Object.keys(routes).length > 0 ? routes : undefined,
+      localDirectory: manifest.assets ? this.resolveBundlePath(bundlePath, manifest.assets) : undefined,
+      notFoundContent: manifest.notFound ? this.readBundleFile(bundlePath, manifest.notFound) : undefined,
+      remoteUrl: manifest.remoteUrl,
+      mirrors: manifest.mirrors,
+      integrity: manifest.integrity,
+    };
+  }
+
+  private validate(manifest: InspireBundleManifest): void {
+    if (!manifest || typeof manifest !== 'object') {
+      throw new Error('Manifest is empty or not an object');
+    }
+    if (typeof manifest.address !== 'string' || !/^[a-z0-9-]+\.[a-z]+$/i.test(manifest.address.trim())) {
+      throw new Error('"address" must look like "name.inspire"');
+    }
+
+    const type = manifest.address.trim().split('.')[1];
+    if (!this.inspireResolver.findWebSpaceType(type)) {
+      throw new Error(`Unknown web space type "${type}"`);
+    }
+    if (manifest.internalAddress !== undefined && typeof manifest.internalAddress !== 'string') {
+      throw new Error('"internalAddress" must look like "name.ins"');
+    }
+    if (!manifest.metadata || typeof manifest.metadata.name !== 'string') {
+      throw new Error('"metadata.name" is required');
+    }
+    if (!manifest.index && !manifest.routes && !manifest.assets && !manifest.remoteUrl && !manifest.mirrors?.length) {
+      throw new Error('Manifest must define at least one of index, routes, assets, remoteUrl or mirrors');
+    }
+    // Local pages are served in preference to the hosted URL, which would never be used
+    if (manifest.remoteUrl && (manifest.index || manifest.routes || manifest.assets)) {
+      throw new Error('"remoteUrl" cannot be combined with index, routes or assets');
+    }
+    for (const mirror of manifest.mirrors ?? []) {
+      if (typeof mirror.url !== 'string' || typeof mirror.priority !== 'number') {
+        throw new Error('Each mirror needs a "url" and a numeric "priority"');
+      }
+    }
+  }
+
+  /**
+   * Resolve a manifest path, refusing paths that leave the bundle folder
+   */
+  private resolveBundlePath(bundlePath: string, relativePath: string): string {
+    const root = path.resolve(bundlePath);
+    const resolved = path.resolve(root, relativePath);
+    if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+      throw new Error(`"${relativePath}" is outside the bundle`);
+    }
+    return resolved;
+  }
+
+  private readBundleFile(bundlePath: string, relativePath: string): string {
+    const file = this.resolveBundlePath(bundlePath, relativePath);
+    if (!fs.existsSync(file)) {
+      throw new Error(`Missing file "${relativePath}"`);
+    }
+    return fs.readFileSync(file, 'utf-8');
+  }
+}
@@ -0,0 +1,335 @@
+/**
+ * Inspire DNS Sources
+ * Pluggable backends that answer WorldWideBibleWeb DNS lookups for the InspireResolver
+ *
+ * Both sources mirror the schema in database/002_create_tables.sql and
+ * database/005_resolver_functions.sql:
+ * - JsonReplicaDnsSource reads an export of the "DNS_ResolutionCache" view
+ * - HttpDnsSource calls an endpoint backed by resolve_by_type_domain()
+ *   and reverse_resolve_url()
+ */
+
+import { net } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WebSpaceType } from '../shared/types';
+
+/**
+ * A single resolved DNS record (one row of "DNS_ResolutionCache")
+ */
+export interface InspireDnsRecord {
+  webSpaceType: string;        // e.g., "inspire"
+  webSpaceTypeAbbrev?: string; // e.g., "insp"
+  domainName: string;          // e.g., "home"
+  privateUrl: string;          // e.g., "inspire://home.inspire"
+  shortPrivateUrl?: string;    // e.g., "insp://home.insp"
+  publicRelativePath?: string; // e.g., "/inspire/home/"
+  publicUrl: string;           // e.g., "https://www.worldwidebibleweb.com/inspire/home/"
+  thirdPartyUrl?: string;      // Optional override host
+  resolvedUrl: string;         // Third-party override if set, otherwise the public URL
+  priority: number;            // Lower = higher priority
+  description?: string;
+}
+
+/**
+ * A backend that can answer DNS lookups
+ * Sources that keep their data in memory implement the *Sync variants so
+ * InspireResolver.resolveSync() can use them from the protocol handler.
+ */
+export interface InspireDnsSource {
+  readonly name: string;
+  lookup(webSpaceType: string, domainName: string): Promise<InspireDnsRecord | null>;
+  lookupSync?(webSpaceType: string, domainName: string): InspireDnsRecord | null;
+  reverseLookup(publicUrl: string): Promise<InspireDnsRecord | null>;
+  reverseLookupSync?(publicUrl: string): InspireDnsRecord | null;
+  listWebSpaceTypes?(): WebSpaceType[];
+  destroy?(): void;
+}
+
+/**
+ * Row format of a "DNS_ResolutionCache" export (column names as in the database)
+ */
+interface ResolutionCacheRow {
+  DNS_ID?: number;
+  WebSpaceType: string;
+  WebSpaceTypeAbbrev?: string | null;
+  DomainName: string;
+  PrivateProtocolURL: string;
+  ShortPrivateURL?: string | null;
+  PublicRelativePath?: string | null;
+  PublicURL: string;
+  ThirdPartyOverrideURL?: string | null;
+  ResolvedURL?: string | null;
+  Priority?: number | null;
+  IsActive?: boolean;
+  Description?: string | null;
+}
+
+interface DnsReplicaFile {
+  generated_at?: string;
+  records: ResolutionCacheRow[];
+}
+
+/**
+ * Compare two public URLs the way the CITEXT columns do (case-insensitive),
+ * ignoring a trailing slash
+ */
+function normalizePublicUrl(url: string): string {
+  return url.trim().toLowerCase().replace(/\/+$/, '');
+}
+
+/**
+ * Local JSON replica of the DNS_ResolutionCache view
+ * Kept in memory and hot-reloaded when the file is created, changed or replaced
+ */
+export class JsonReplicaDnsSource implements InspireDnsSource {
+  readonly name = 'json-replica';
+  private filePath: string;
+  private records: InspireDnsRecord[] = [];
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.load();
+    this.watch();
+  }
+
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        this.records = [];
+        return;
+      }
+
+      const data = fs.readFileSync(this.filePath, 'utf-8');
+      const replica = JSON.parse(data) as DnsReplicaFile;
+      const rows = Array.isArray(replica.records) ? replica.records : [];
+
+      this.records = rows
+        .filter((row) => row.IsActive !== false && row.WebSpaceType && row.DomainName && row.PublicURL)
+        .map((row) => this.toRecord(row))
+        .sort((a, b) => a.priority - b.priority);
+
+      console.log(`[InspireDns] Loaded ${this.records.length} records from ${this.filePath}`);
+    } catch (error) {
+      console.error('[InspireDns] Failed to load DNS replica:', error);
+      this.records = [];
+    }
+  }
+
+  /**
+   * Watch the containing directory rather than the file, so a replica that is
+   * created later or replaced atomically (written elsewhere, then renamed over
+   * the old file) is picked up as well
+   */
+  private watch(): void {
+    const directory = path.dirname(this.filePath);
+    const fileName = path.basename(this.filePath);
+
+    try {
+      if (!fs.existsSync(directory)) return;
+      this.watcher = fs.watch(directory, (_eventType, changed) => {
+        if (changed && changed.toString() !== fileName) return;
+        if (this.reloadTimer) clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => {
+          this.reloadTimer = null;
+          this.load();
+        }, 100);
+      });
+    } catch (error) {
+      console.error(`[InspireDns] Error watching ${directory}:`, error);
+    }
+  }
+
+  private toRecord(row: ResolutionCacheRow): InspireDnsRecord {
+    return {
+      webSpaceType: row.WebSpaceType.toLowerCase(),
+      webSpaceTypeAbbrev: row.WebSpaceTypeAbbrev?.trim().toLowerCase() || undefined,
+      domainName: row.DomainName.toLowerCase(),
+      privateUrl: row.PrivateProtocolURL.toLowerCase(),
+      shortPrivateUrl: row.ShortPrivateURL?.toLowerCase() || undefined,
+      publicRelativePath: row.PublicRelativePath || undefined,
+      publicUrl: row.PublicURL,
+      thirdPartyUrl: row.ThirdPartyOverrideURL || undefined,
+      resolvedUrl: row.ResolvedURL || row.ThirdPartyOverrideURL || row.PublicURL,
+      priority: row.Priority ?? 100,
+      description: row.Description || undefined,
+    };
+  }
+
+  /**
+   * Same matching rules as resolve_by_type_domain(): full or abbreviated type
+   */
+  lookupSync(webSpaceType: string, domainName: string): InspireDnsRecord | null {
+    const type = webSpaceType.toLowerCase();
+    const domain = domainName.toLowerCase();
+
+    return this.records.find((record) =>
+      (record.webSpaceType === type || record.webSpaceTypeAbbrev === type) &&
+      record.domainName === domain
+    ) ?? null;
+  }
+
+  lookup(webSpaceType: string, domainName: string): Promise<InspireDnsRecord | null> {
+    return Promise.resolve(this.lookupSync(webSpaceType, domainName));
+  }
+
+  /**
+   * Same matching rules as reverse_resolve_url(): public, third-party or relative path
+   */
+  reverseLookupSync(publicUrl: string): InspireDnsRecord | null {
+    const target = normalizePublicUrl(publicUrl);
+
+    return this.records.find((record) =>
+      normalizePublicUrl(record.publicUrl) === target ||
+      (record.thirdPartyUrl !== undefined && normalizePublicUrl(record.thirdPartyUrl) === target) ||
+      (record.publicRelativePath !== undefined && normalizePublicUrl(record.publicRelativePath) === target)
+    ) ?? null;
+  }
+
+  reverseLookup(publicUrl: string): Promise<InspireDnsRecord | null> {
+    return Promise.resolve(this.reverseLookupSync(publicUrl));
+  }
+
+  /**
+   * Web space types present in the replica
+   */
+  listWebSpaceTypes(): WebSpaceType[] {
+    const types = new Map<string, WebSpaceType>();
+    for (const record of this.records) {
+      if (!types.has(record.webSpaceType)) {
+        types.set(record.webSpaceType, {
+          fullName: record.webSpaceType,
+          abbreviation: record.webSpaceTypeAbbrev,
+        });
+      }
+    }
+    return Array.from(types.values());
+  }
+
+  /**
+   * Get all loaded records
+   */
+  getRecords(): InspireDnsRecord[] {
+    return [...this.records];
+  }
+
+  destroy(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    if (this.watcher) {
+      try {
+        this.watcher.close();
+      } catch (e) {
+        // Ignore cleanup errors
+      }
+      this.watcher = null;
+    }
+  }
+}
+
+/**
+ * HTTP endpoint backed by the resolver functions
+ *
+ * GET {endpoint}/resolve?type=inspire&domain=home  -> resolve_by_type_domain() row
+ * GET {endpoint}/reverse?url=https://...           -> reverse_resolve_url() row
+ */
+export class HttpDnsSource implements InspireDnsSource {
+  readonly name = 'http';
+  private endpoint: string;
+  private timeoutMs: number;
+
+  constructor(endpoint: string, timeoutMs: number = 5000) {
+    this.endpoint = endpoint.replace(/\/+$/, '');
+    this.timeoutMs = timeoutMs;
+  }
+
+  async lookup(webSpaceType: string, domainName: string): Promise<InspireDnsRecord | null> {
+    const query = `type=${encodeURIComponent(webSpaceType)}&domain=${encodeURIComponent(domainName)}`;
+    const row = await this.request(`/resolve?${query}`);
+    if (!row || !row.public_url) return null;
+
+    return {
+      webSpaceType: webSpaceType.toLowerCase(),
+      domainName: domainName.toLowerCase(),
+      privateUrl: String(row.private_url || `${webSpaceType}://${domainName}.${webSpaceType}`).toLowerCase(),
+      publicUrl: row.public_url,
+      thirdPartyUrl: row.third_party_url || undefined,
+      resolvedUrl: row.resolved_url || row.third_party_url || row.public_url,
+      priority: row.priority ?? 100,
+    };
+  }
+
+  async reverseLookup(publicUrl: string): Promise<InspireDnsRecord | null> {
+    const row = await this.request(`/reverse?url=${encodeURIComponent(publicUrl)}`);
+    if (!row || !row.private_url) return null;
+
+    return {
+      webSpaceType: String(row.web_space_type).toLowerCase(),
+      domainName: String(row.domain_name).toLowerCase(),
+      privateUrl: String(row.private_url).toLowerCase(),
+      shortPrivateUrl: row.short_private_url?.toLowerCase() || undefined,
+      publicUrl,
+      thirdPartyUrl: row.third_party_url || undefined,
+      resolvedUrl: row.third_party_url || publicUrl,
+      priority: 100,
+    };
+  }
+
+  /**
+   * GET a JSON row from the endpoint; resolves null on 404 or network failure
+   */
+  private request(pathAndQuery: string): Promise<any> {
+    const url = `${this.endpoint}${pathAndQuery}`;
+
+    return new Promise((resolve) => {
+      const request = net.request({ method: 'GET', url });
+      let responseData = '';
+      let settled = false;
+
+      const finish = (value: any) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        resolve(value);
+      };
+
+      const timer = setTimeout(() => {
+        request.abort();
+        finish(null);
+      }, this.timeoutMs);
+
+      request.on('response', (response) => {
+        if (response.statusCode !== 200) {
+          finish(null);
+          return;
+        }
+
+        response.on('data', (chunk) => {
+          responseData += chunk.toString();
+        });
+
+        response.on('end', () => {
+          try {
+            const parsed = JSON.parse(responseData);
+            // Endpoints may return the single row or the RETURNS TABLE result set
+            finish(Array.isArray(parsed) ? parsed[0] ?? null : parsed);
+          } catch {
+            console.error('[InspireDns] Invalid response from DNS endpoint');
+            finish(null);
+          }
+        });
+      });
+
+      request.on('error', (error) => {
+        console.error('[InspireDns] Network error:', error);
+        finish(null);
+      });
+
+      request.end();
+    });
+  }
+}
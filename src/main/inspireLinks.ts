@@ -0,0 +1,39 @@
+/**
+ * Inspire Links
+ * Rewrites links in proxied pages of hosted locations to the private address
+ *
+ * A hosted location is served from a public base URL, which may include a path
+ * (https://www.worldwidebibleweb.com/inspire/home/). Only links under that base
+ * belong to the location:
+ *   https://www.worldwidebibleweb.com/inspire/home/guide -> inspire://home.inspire/guide
+ * Other pages on the same host (another location, the host's own site) keep their
+ * public URL, like reverseResolve maps path prefixes in InspireResolver.
+ */
+
+// What may follow the base in a link: the rest of the path, a query, a fragment or the end of the URL
+const LINK_END = `(?=[/?#"'\\s)<>\\\\]|$)`;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Point absolute links (https:, http: and scheme-relative) under the public base URL
+ * at the private origin instead
+ */
+export function rewriteHostedLinks(body: string, publicBaseUrl: string, privateOrigin: string): string {
+  let base: URL;
+  try {
+    base = new URL(publicBaseUrl);
+  } catch {
+    return body;
+  }
+
+  const basePath = base.pathname.replace(/\/+$/, '');
+  // https://host/base, http://host/base, and //host/base when not part of another scheme's URL
+  const pattern = new RegExp(
+    `(?:https?:|(?<![\\w+.:-]))//${escapeRegExp(base.host)}${escapeRegExp(basePath)}${LINK_END}`,
+    'g'
+  );
+  return body.replace(pattern, privateOrigin);
+}
@@ -0,0 +1,169 @@
+/**
+ * Inspire Mirrors
+ * Fetches 'distributed' location content from a prioritized list of mirror origins
+ *
+ * - Mirrors are tried in priority order (lower = preferred)
+ * - A mirror that fails (network error, non-200, integrity mismatch) is skipped
+ *   for a cooldown period so later requests go straight to a healthy one
+ * - Content is verified against the location's published hashes
+ *   (Subresource Integrity format: "sha256-<base64>")
+ */
+
+import { net } from 'electron';
+import * as crypto from 'crypto';
+import { InspireMirror } from '../shared/types';
+
+export interface MirrorFetchResult {
+  mirrorUrl: string;
+  body: Buffer;          // Exactly the bytes the integrity check was made on
+  contentType: string;   // Content-Type header as sent by the mirror, charset included
+  integrityVerified: boolean;
+}
+
+const SUPPORTED_ALGORITHMS = ['sha256', 'sha384', 'sha512'];
+
+/**
+ * Check a body against an SRI string; any matching hash in the list passes
+ */
+export function verifyIntegrity(body: Buffer, integrity: string): boolean {
+  const hashes = integrity.trim().split(/\s+/);
+
+  return hashes.some((entry) => {
+    const separator = entry.indexOf('-');
+    if (separator === -1) return false;
+
+    const algorithm = entry.substring(0, separator).toLowerCase();
+    const expected = entry.substring(separator + 1);
+    if (!SUPPORTED_ALGORITHMS.includes(algorithm)) return false;
+
+    const actual = crypto.createHash(algorithm).update(body).digest('base64');
+    return actual === expected;
+  });
+}
+
+export class InspireMirrorSelector {
+  private failures: Map<string, number> = new Map(); // key: mirror origin, value: failed at
+  private cooldownMs: number;
+  private timeoutMs: number;
+
+  constructor(cooldownMs: number = 60 * 1000, timeoutMs: number = 10000) {
+    this.cooldownMs = cooldownMs;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Order mirrors by priority, moving mirrors that recently failed to the end
+   */
+  orderMirrors(mirrors: InspireMirror[]): InspireMirror[] {
+    const now = Date.now();
+    const isCoolingDown = (mirror: InspireMirror) => {
+      const failedAt = this.failures.get(mirror.url);
+      return failedAt !== undefined && now - failedAt < this.cooldownMs;
+    };
+
+    return [...mirrors].sort((a, b) => {
+      const aDown = isCoolingDown(a) ? 1 : 0;
+      const bDown = isCoolingDown(b) ? 1 : 0;
+      return aDown - bDown || a.priority - b.priority;
+    });
+  }
+
+  /**
+   * Preferred mirror without fetching (for synchronous resolution)
+   */
+  pickMirror(mirrors: InspireMirror[]): InspireMirror | null {
+    return this.orderMirrors(mirrors)[0] ?? null;
+  }
+
+  /**
+   * Fetch a path from the first mirror that answers with valid content
+   * Returns null when every mirror failed.
+   */
+  async fetch(
+    mirrors: InspireMirror[],
+    routePath: string,
+    integrity?: string
+  ): Promise<MirrorFetchResult | null> {
+    for (const mirror of this.orderMirrors(mirrors)) {
+      const url = `${mirror.url.replace(/\/+$/, '')}${routePath}`;
+
+      try {
+        const response = await this.request(url);
+        if (!response) {
+          this.markFailed(mirror);
+          continue;
+        }
+
+        if (integrity && !verifyIntegrity(response.body, integrity)) {
+          console.warn(`[InspireMirrors] Integrity check failed for ${url}`);
+          this.markFailed(mirror);
+          continue;
+        }
+
+        this.failures.delete(mirror.url);
+        return {
+          mirrorUrl: url,
+          body: response.body,
+          contentType: response.contentType,
+          integrityVerified: !!integrity,
+        };
+      } catch (error) {
+        console.error(`[InspireMirrors] Mirror ${mirror.url} failed:`, error);
+        this.markFailed(mirror);
+      }
+    }
+
+    return null;
+  }
+
+  private markFailed(mirror: InspireMirror): void {
+    this.failures.set(mirror.url, Date.now());
+  }
+
+  /**
+   * GET a URL; resolves null on non-200 responses, network errors and timeouts
+   */
+  private request(url: string): Promise<{ body: Buffer; contentType: string } | null> {
+    return new Promise((resolve) => {
+      const request = net.request({ method: 'GET', url });
+      const chunks: Buffer[] = [];
+      let settled = false;
+
+      const finish = (value: { body: Buffer; contentType: string } | null) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        resolve(value);
+      };
+
+      const timer = setTimeout(() => {
+        request.abort();
+        finish(null);
+      }, this.timeoutMs);
+
+      request.on('response', (response) => {
+        if (response.statusCode !== 200) {
+          finish(null);
+          return;
+        }
+
+        const header = response.headers['content-type'];
+        const contentType = (Array.isArray(header) ? header[0] : header || 'text/html').trim();
+
+        response.on('data', (chunk) => {
+          chunks.push(chunk);
+        });
+
+        response.on('end', () => {
+          finish({ body: Buffer.concat(chunks), contentType });
+        });
+      });
+
+      request.on('error', () => {
+        finish(null);
+      });
+
+      request.end();
+    });
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Inspire Protocol Handler
+ * Serves web space URLs (inspire://, church://, ...) in the JubileeBibles session
+ *
+ * Local and distributed content is served from the resolution (distributed content
+ * as the exact bytes that were checked against the published hash). Hosted locations
+ * are proxied: the page and its subresources (CSS, images, fonts) are fetched
+ * from the public URL and streamed back under the private address, so the
+ * address bar and tab keep showing inspire://name.inspire.
+ */
+
+import { net } from 'electron';
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { InspireResolver } from './inspireResolver';
+import { InspireAccessControl } from './inspireAccessControl';
+import { rewriteHostedLinks } from './inspireLinks';
+
+type ProtocolCallback = (response: Electron.ProtocolResponse) => void;
+
+// Request headers that describe the private origin and must not reach the public host
+const STRIPPED_REQUEST_HEADERS = ['host', 'origin', 'referer', 'cookie'];
+
+// Response headers that no longer apply once the body is re-served (and possibly rewritten)
+const STRIPPED_RESPONSE_HEADERS = ['content-length', 'content-encoding', 'transfer-encoding', 'content-security-policy'];
+
+// Text responses whose links under the location's public base URL are rewritten to the private address
+const REWRITTEN_MIME_TYPES = ['text/html', 'text/css', 'application/javascript', 'text/javascript'];
+
+export class InspireProtocolHandler {
+  private inspireResolver: InspireResolver;
+  private accessControl: InspireAccessControl;
+
+  constructor(inspireResolver: InspireResolver, accessControl: InspireAccessControl) {
+    this.inspireResolver = inspireResolver;
+    this.accessControl = accessControl;
+  }
+
+  /**
+   * Stream protocol handler for every web space scheme
+   */
+  handle = async (request: Electron.ProtocolRequest, callback: ProtocolCallback): Promise<void> => {
+    // Identity and permission gate (requiresIdentity, permissions): every request for the
+    // host, before anything is resolved or served, including unknown paths and DNS answers
+    const access = await this.accessControl.checkAccess(
+      this.inspireResolver.getAccessMetadata(request.url),
+      request.url
+    );
+    if (!access.allowed) {
+      const heading = access.requiresSignIn ? 'Sign In Required' : 'Access Restricted';
+      callback(this.bufferResponse(
+        access.requiresSignIn ? 401 : 403,
+        'text/html',
+        Buffer.from(this.inspireResolver.getErrorPage(access.reason || heading, heading), 'utf-8')
+      ));
+      return;
+    }
+
+    const resolution = await this.inspireResolver.resolve(request.url);
+
+    try {
+      if (resolution.success && resolution.contentType === 'hosted' && resolution.internalUrl) {
+        this.proxy(request, resolution.internalUrl, resolution.remoteUrl || resolution.internalUrl, callback);
+        return;
+      }
+
+      if (resolution.success && resolution.body) {
+        // Distributed content: the verified bytes, untouched, with the mirror's content type
+        callback({
+          statusCode: 200,
+          headers: { 'content-type': resolution.mimeType || 'application/octet-stream' },
+          data: Readable.from([resolution.body]),
+        });
+        return;
+      }
+
+      if (resolution.content !== undefined) {
+        // Pages, sub-pages, text files and location 404 pages
+        callback(this.bufferResponse(
+          resolution.statusCode ?? (resolution.success ? 200 : 404),
+          resolution.mimeType || 'text/html',
+          Buffer.from(resolution.content, 'utf-8')
+        ));
+        return;
+      }
+
+      if (resolution.success && resolution.filePath) {
+        // Bundled binary files (images, fonts)
+        callback({
+          statusCode: 200,
+          headers: { 'content-type': resolution.mimeType || 'application/octet-stream' },
+          data: fs.createReadStream(resolution.filePath),
+        });
+        return;
+      }
+    } catch (error) {
+      console.error('[InspireProtocol] Failed to serve request:', error);
+    }
+
+    this.sendErrorPage(callback, 404, resolution.errorMessage || 'Unknown error');
+  };
+
+  /**
+   * Fetch the public URL and stream it back under the private address
+   */
+  private proxy(
+    request: Electron.ProtocolRequest,
+    upstreamUrl: string,
+    publicBaseUrl: string,
+    callback: ProtocolCallback
+  ): void {
+    const privateUrl = new URL(request.url);
+    const privateOrigin = `${privateUrl.protocol}//${privateUrl.host}`;
+
+    const upstream = net.request({ method: request.method, url: upstreamUrl, redirect: 'follow' });
+
+    for (const [name, value] of Object.entries(request.headers)) {
+      if (!STRIPPED_REQUEST_HEADERS.includes(name.toLowerCase())) {
+        upstream.setHeader(name, value);
+      }
+    }
+
+    upstream.on('response', (response) => {
+      const headers: Record<string, string | string[]> = {};
+      for (const [name, value] of Object.entries(response.headers)) {
+        if (!STRIPPED_RESPONSE_HEADERS.includes(name.toLowerCase())) {
+          headers[name] = value;
+        }
+      }
+
+      const contentType = headers['content-type'];
+      const mimeType = String(Array.isArray(contentType) ? contentType[0] : contentType || '')
+        .split(';')[0]
+        .trim()
+        .toLowerCase();
+
+      if (!REWRITTEN_MIME_TYPES.includes(mimeType)) {
+        // Images, fonts and other binary content are streamed as-is
+        callback({ statusCode: response.statusCode, headers, data: response as unknown as Readable });
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk) => chunks.push(chunk));
+      response.on('end', () => {
+        const body = rewriteHostedLinks(Buffer.concat(chunks).toString('utf-8'), publicBaseUrl, privateOrigin);
+        callback({ statusCode: response.statusCode, headers, data: Readable.from([Buffer.from(body, 'utf-8')]) });
+      });
+      response.on('error', () => {
+        this.sendErrorPage(callback, 502, `Failed to load ${privateUrl.host}`);
+      });
+    });
+
+    upstream.on('error', (error) => {
+      console.error(`[InspireProtocol] Hosted location unreachable: ${upstreamUrl}`, error);
+      this.sendErrorPage(callback, 502, `${privateUrl.host} is currently unreachable`);
+    });
+
+    for (const part of request.uploadData ?? []) {
+      if (part.bytes) {
+        upstream.write(part.bytes);
+      }
+    }
+    upstream.end();
+  }
+
+  private bufferResponse(statusCode: number, mimeType: string, body: Buffer): Electron.ProtocolResponse {
+    return {
+      statusCode,
+      headers: { 'content-type': `${mimeType}; charset=utf-8` },
+      data: Readable.from([body]),
+    };
+  }
+
+  private sendErrorPage(callback: ProtocolCallback, statusCode: number, message: string): void {
+    callback(this.bufferResponse(
+      statusCode,
+      'text/html',
+      Buffer.from(this.inspireResolver.getErrorPage(message), 'utf-8')
+    ));
+  }
+}
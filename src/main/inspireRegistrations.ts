@@ -0,0 +1,189 @@
+/**
+ * Inspire Registrations
+ * Trusted steward keys and persistence for signed INSPIRE_REGISTER requests
+ *
+ * A steward signs the canonical JSON of an InspireRegistrationPayload with their
+ * private key. The resolver accepts the registration only if the signature
+ * verifies against a trusted key whose steward matches payload.metadata.steward.
+ *
+ * Trusted key file format:
+ *   { "keys": [ { "keyId": "...", "steward": "...", "publicKey": "-----BEGIN PUBLIC KEY-----..." } ] }
+ *
+ * Files are read from the app resources first, then userData. A keyId keeps the
+ * first definition found, so userData can add keys but not replace shipped ones,
+ * and { "keyId": "...", "revoked": true } in any file revokes the key for good.
+ */
+
+import { app } from 'electron';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { InspireRegistrationPayload, InspireRegistrationRequest } from '../shared/types';
+
+export interface InspireTrustedKey {
+  keyId: string;
+  steward: string;
+  publicKey: string;     // PEM (Ed25519, ECDSA or RSA)
+  revoked?: boolean;
+}
+
+/**
+ * Serialize a value with object keys sorted, so signer and verifier hash identical bytes
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export class InspireTrustedKeys {
+  private keys: Map<string, InspireTrustedKey> = new Map(); // key: keyId
+  private revokedKeyIds: Set<string> = new Set();
+
+  constructor(fileName: string) {
+    const possiblePaths = [
+      // Development: project resources folder
+      path.join(process.cwd(), 'resources', fileName),
+      // Production: in resources folder
+      path.join(process.resourcesPath || '', fileName),
+      // User data directory
+      path.join(app.getPath('userData'), fileName),
+    ];
+
+    for (const keysPath of possiblePaths) {
+      this.loadFile(keysPath);
+    }
+  }
+
+  private loadFile(keysPath: string): void {
+    try {
+      if (!fs.existsSync(keysPath)) return;
+
+      const data = JSON.parse(fs.readFileSync(keysPath, 'utf-8')) as { keys?: InspireTrustedKey[] };
+      for (const key of data.keys ?? []) {
+        if (!key.keyId) continue;
+        if (key.revoked) {
+          this.revokedKeyIds.add(key.keyId);
+        } else if (key.steward && key.publicKey && !this.keys.has(key.keyId)) {
+          this.keys.set(key.keyId, key);
+        }
+      }
+      console.log(`[InspireRegistrations] Loaded trusted keys from ${keysPath}`);
+    } catch (error) {
+      console.error(`[InspireRegistrations] Failed to load trusted keys from ${keysPath}:`, error);
+    }
+  }
+
+  /**
+   * Verify a request's signature; returns the signing key's steward or an error
+   */
+  verify(request: InspireRegistrationRequest): { steward?: string; error?: string } {
+    const key = this.keys.get(request.keyId);
+    if (!key || this.revokedKeyIds.has(request.keyId)) {
+      return { error: `Key "${request.keyId}" is not trusted` };
+    }
+
+    try {
+      const publicKey = crypto.createPublicKey(key.publicKey);
+      // Ed25519/Ed448 sign the message directly; RSA and ECDSA keys sign a SHA-256 digest
+      const algorithm = publicKey.asymmetricKeyType?.startsWith('ed') ? null : 'sha256';
+      const valid = crypto.verify(
+        algorithm,
+        Buffer.from(canonicalJson(request.payload), 'utf-8'),
+        publicKey,
+        Buffer.from(request.signature, 'base64')
+      );
+      return valid ? { steward: key.steward } : { error: 'Signature does not match the payload' };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Signature verification failed' };
+    }
+  }
+
+  getKeys(): InspireTrustedKey[] {
+    return Array.from(this.keys.values()).map((key) => ({ ...key, revoked: this.revokedKeyIds.has(key.keyId) }));
+  }
+}
+
+/**
+ * Accepted registrations, kept per profile and re-verified on startup
+ * One request per canonical address (the newest by issuedAt); files written before
+ * entries were keyed canonically are re-keyed by retain() after the startup replay.
+ */
+export class InspireRegistrationStore {
+  private dataPath: string;
+  private requests: Map<string, InspireRegistrationRequest> = new Map(); // key: canonical address
+
+  constructor(fileName: string, profileDataPath?: string) {
+    const basePath = profileDataPath || app.getPath('userData');
+    this.dataPath = path.join(basePath, fileName);
+    this.load();
+  }
+
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.dataPath)) return;
+
+      const requests = JSON.parse(fs.readFileSync(this.dataPath, 'utf-8')) as InspireRegistrationRequest[];
+      for (const request of requests) {
+        if (typeof request?.payload?.address !== 'string') continue;
+        this.keepNewest(request.payload.address.trim().toLowerCase(), request);
+      }
+    } catch (error) {
+      console.error('[InspireRegistrations] Failed to load registrations:', error);
+    }
+  }
+
+  private keepNewest(address: string, request: InspireRegistrationRequest): boolean {
+    const stored = this.requests.get(address);
+    if (stored && stored.payload.issuedAt > request.payload.issuedAt) return false;
+    this.requests.set(address, request);
+    return true;
+  }
+
+  /**
+   * Stored requests, oldest first, so replaying them leaves the newest in place
+   */
+  getAll(): InspireRegistrationRequest[] {
+    return Array.from(this.requests.values()).sort((a, b) => a.payload.issuedAt - b.payload.issuedAt);
+  }
+
+  /**
+   * Store an accepted request under its canonical address (InspireRegistrationResult.address)
+   */
+  save(address: string, request: InspireRegistrationRequest): void {
+    if (this.keepNewest(address, request)) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Keep only the requests that passed re-verification, by canonical address
+   */
+  retain(accepted: Map<string, InspireRegistrationRequest>): void {
+    const before = JSON.stringify(this.getAll());
+    this.requests = new Map(accepted);
+    if (JSON.stringify(this.getAll()) !== before) {
+      this.persist();
+    }
+  }
+
+  private persist(): void {
+    try {
+      const dir = path.dirname(this.dataPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      fs.writeFileSync(this.dataPath, JSON.stringify(this.getAll(), null, 2));
+    } catch (error) {
+      console.error('[InspireRegistrations] Failed to save registrations:', error);
+    }
+  }
+}
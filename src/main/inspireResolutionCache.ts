@@ -0,0 +1,230 @@
+/**
+ * Inspire Resolution Cache
+ * Per-profile, persisted cache of inspire host resolutions
+ *
+ * Mirrors the server-side "DNS_ResolutionCache" view on the client: one entry per
+ * host within a web space ("home.inspire"), holding where the host resolves to but
+ * never page content. Paths are resolved against the cached location on each load.
+ * - Fresh entries (younger than the TTL) are served directly
+ * - Stale entries are served while the resolver revalidates them in the background
+ * - Entries older than maxStale are dropped
+ * - Beyond maxEntries, the least recently used entry is evicted
+ */
+
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { InspireMetadata, InspireCacheStats } from '../shared/types';
+
+/**
+ * Where a host resolves to (a DNS record, without any content)
+ */
+export interface InspireCachedLocation {
+  publicAddress: string;      // e.g., "home.inspire"
+  internalAddress: string;    // e.g., "home.ins"
+  metadata: InspireMetadata;
+  remoteUrl: string;
+}
+
+/**
+ * A cached host resolution
+ */
+export interface InspireCacheEntry {
+  location: InspireCachedLocation;
+  fetchedAt: number;
+}
+
+/**
+ * Result of a cache lookup
+ */
+export interface InspireCacheLookup {
+  location: InspireCachedLocation;
+  fetchedAt: number;
+  stale: boolean;
+}
+
+interface CacheFile {
+  version: number;
+  entries: Record<string, InspireCacheEntry>;
+}
+
+const CACHE_FILE_VERSION = 2; // 1 stored whole resolutions keyed by URL
+
+export class InspireResolutionCache {
+  private dataPath: string;
+  private ttl: number;
+  private maxStale: number;
+  private maxEntries: number;
+  private entries: Map<string, InspireCacheEntry> = new Map(); // key: canonical host, least recently used first
+  private saveDebounceTimer: NodeJS.Timeout | null = null;
+  private dirty: boolean = false;
+  private stats = {
+    hits: 0,
+    staleHits: 0,
+    misses: 0,
+    revalidations: 0,
+  };
+
+  constructor(fileName: string, ttl: number, maxStale: number, maxEntries: number, profileDataPath?: string) {
+    const basePath = profileDataPath || app.getPath('userData');
+    this.dataPath = path.join(basePath, fileName);
+    this.ttl = ttl;
+    this.maxStale = maxStale;
+    this.maxEntries = maxEntries;
+    this.load();
+  }
+
+  /**
+   * Load the cache from disk (synchronous so the protocol handler can use it immediately)
+   */
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.dataPath)) return;
+
+      const data = JSON.parse(fs.readFileSync(this.dataPath, 'utf-8')) as CacheFile;
+      if (data.version !== CACHE_FILE_VERSION || !data.entries) return;
+
+      // Saved least recently used first
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(data.entries)) {
+        if (entry?.location && now - entry.fetchedAt < this.maxStale) {
+          this.entries.set(key, entry);
+        }
+      }
+      this.evict();
+
+      console.log(`[InspireCache] Loaded ${this.entries.size} cached resolutions`);
+    } catch (error) {
+      console.error('[InspireCache] Failed to load cache:', error);
+      this.entries.clear();
+    }
+  }
+
+  /**
+   * Schedule a debounced save
+   */
+  private scheduleSave(): void {
+    this.dirty = true;
+    if (this.saveDebounceTimer) {
+      clearTimeout(this.saveDebounceTimer);
+    }
+
+    this.saveDebounceTimer = setTimeout(() => {
+      this.flush();
+    }, 1000);
+  }
+
+  /**
+   * Immediately write pending changes to disk
+   */
+  flush(): void {
+    if (this.saveDebounceTimer) {
+      clearTimeout(this.saveDebounceTimer);
+      this.saveDebounceTimer = null;
+    }
+
+    if (!this.dirty) return;
+
+    try {
+      const dir = path.dirname(this.dataPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      const data: CacheFile = {
+        version: CACHE_FILE_VERSION,
+        entries: Object.fromEntries(this.entries),
+      };
+      fs.writeFileSync(this.dataPath, JSON.stringify(data), 'utf-8');
+      this.dirty = false;
+    } catch (error) {
+      console.error('[InspireCache] Failed to save cache:', error);
+    }
+  }
+
+  /**
+   * Drop the least recently used entries beyond maxEntries
+   */
+  private evict(): void {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(key);
+    }
+  }
+
+  /**
+   * Look up a host, recording a hit, stale hit or miss
+   */
+  get(key: string): InspireCacheLookup | null {
+    const entry = this.entries.get(key);
+    const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+    if (!entry || age >= this.maxStale) {
+      if (entry) {
+        this.entries.delete(key);
+        this.scheduleSave();
+      }
+      this.stats.misses++;
+      return null;
+    }
+
+    const stale = age >= this.ttl;
+    if (stale) {
+      this.stats.staleHits++;
+    } else {
+      this.stats.hits++;
+    }
+
+    // Mark as most recently used (the order is saved on the next write)
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return { location: entry.location, fetchedAt: entry.fetchedAt, stale };
+  }
+
+  /**
+   * Store where a host resolves to
+   */
+  set(key: string, location: InspireCachedLocation): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      location: {
+        publicAddress: location.publicAddress,
+        internalAddress: location.internalAddress,
+        metadata: location.metadata,
+        remoteUrl: location.remoteUrl,
+      },
+      fetchedAt: Date.now(),
+    });
+    this.evict();
+    this.scheduleSave();
+  }
+
+  /**
+   * Record a completed background revalidation
+   */
+  recordRevalidation(): void {
+    this.stats.revalidations++;
+  }
+
+  delete(key: string): void {
+    if (this.entries.delete(key)) {
+      this.scheduleSave();
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.stats = { hits: 0, staleHits: 0, misses: 0, revalidations: 0 };
+    this.scheduleSave();
+  }
+
+  getStats(): InspireCacheStats {
+    const lookups = this.stats.hits + this.stats.staleHits + this.stats.misses;
+    return {
+      entries: this.entries.size,
+      ...this.stats,
+      hitRate: lookups > 0 ? (this.stats.hits + this.stats.staleHits) / lookups : 0,
+    };
+  }
+}
@@ -3,23 +3,273 @@
  * Resolves .inspire addresses to content within JubileeBibles
  */
 
-import { InspireResolution, InspireMetadata } from '../shared/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  InspireResolution,
+  InspireMetadata,
+  InspireCacheStats,
+  InspireMirror,
+  InspireRegistrationRequest,
+  InspireRegistrationResult,
+  WebSpaceType,
+  DEFAULT_WEB_SPACE_TYPES,
+} from '../shared/types';
+import { InspireDnsSource, InspireDnsRecord } from './inspireDnsSource';
+import { InspireResolutionCache, InspireCachedLocation } from './inspireResolutionCache';
+import { InspireMirrorSelector } from './inspireMirrors';
+import { InspireTrustedKeys } from './inspireRegistrations';
 
-interface InspireLocation {
+export interface InspireLocation {
   publicAddress: string;      // e.g., "home.inspire"
   internalAddress: string;    // e.g., "home.ins"
   metadata: InspireMetadata;
-  content?: string;           // Local/static content
+  content?: string;           // Local/static content (served at "/")
+  routes?: Record<string, string>; // Static sub-pages, e.g. { '/getting-started': '<html>...' }
+  localDirectory?: string;    // Bundled files served for paths without a route
+  notFoundContent?: string;   // Custom 404 page for unknown paths
   remoteUrl?: string;         // For hosted content
+  mirrors?: InspireMirror[];  // For distributed content
+  integrity?: Record<string, string>; // Published hashes per path, e.g. { '/': 'sha256-...' }
+}
+
+// Signed registrations older than this are rejected (replay protection)
+const REGISTRATION_MAX_AGE = 10 * 60 * 1000;
+
+// Internal addresses: dot-separated labels, e.g. "home.ins"
+const INTERNAL_ADDRESS_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+// Content types for files served from a location's localDirectory
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+};
+
+const TEXT_MIME_TYPES = new Set([
+  'text/html', 'text/css', 'text/javascript', 'application/json', 'text/plain', 'text/markdown', 'image/svg+xml',
+]);
+
+interface ParsedInspireUrl {
+  host: string;              // Canonical "{domain}.{fullType}"
+  rawHost: string;           // Host as written
+  domainName: string;
+  webSpaceType: WebSpaceType;
+  explicitType: boolean;     // Type came from a scheme or host suffix, not the shorthand default
+  path: string;
+  query: string;
 }
 
 export class InspireResolver {
   private registry: Map<string, InspireLocation> = new Map();
+  private dnsSources: InspireDnsSource[] = [];
+  private webSpaceTypes: Map<string, WebSpaceType> = new Map(); // key: full name or abbreviation
+  private cache: InspireResolutionCache | null = null;
+  private revalidating: Set<string> = new Set();
+  private mirrorSelector: InspireMirrorSelector = new InspireMirrorSelector();
+  private publicHosts: string[] = [];
+  private trustedKeys: InspireTrustedKeys | null = null;
+  private registrationIssuedAt: Map<string, number> = new Map(); // key: public address
 
   constructor() {
+    DEFAULT_WEB_SPACE_TYPES.forEach((type) => this.registerWebSpaceType(type));
     this.initializeDefaultLocations();
   }
 
+  /**
+   * Add a DNS backend. Sources are queried in the order they were added,
+   * before the built-in registry.
+   */
+  addDnsSource(source: InspireDnsSource): void {
+    this.dnsSources.push(source);
+    source.listWebSpaceTypes?.().forEach((type) => this.registerWebSpaceType(type));
+  }
+
+  /**
+   * Cache resolutions answered by DNS sources (per profile)
+   */
+  setCache(cache: InspireResolutionCache): void {
+    this.cache = cache;
+  }
+
+  getCacheStats(): InspireCacheStats | null {
+    return this.cache ? this.cache.getStats() : null;
+  }
+
+  clearCache(): void {
+    this.cache?.clear();
+  }
+
+  /**
+   * Make a web space type (and its abbreviation) addressable
+   */
+  registerWebSpaceType(type: WebSpaceType): void {
+    const fullName = type.fullName.toLowerCase();
+    const existing = this.webSpaceTypes.get(fullName);
+    const merged: WebSpaceType = {
+      fullName,
+      abbreviation: type.abbreviation?.trim().toLowerCase() || existing?.abbreviation,
+      description: type.description ?? existing?.description,
+    };
+
+    this.webSpaceTypes.set(fullName, merged);
+    if (merged.abbreviation) {
+      this.webSpaceTypes.set(merged.abbreviation, merged);
+    }
+  }
+
+  /**
+   * Get all known web space types
+   */
+  getWebSpaceTypes(): WebSpaceType[] {
+    return Array.from(new Set(this.webSpaceTypes.values()));
+  }
+
+  /**
+   * Get every URL scheme that should route to the resolver (full names and abbreviations)
+   */
+  getProtocolSchemes(): string[] {
+    return Array.from(this.webSpaceTypes.keys());
+  }
+
+  /**
+   * Find a web space type by full name or abbreviation
+   */
+  findWebSpaceType(name: string): WebSpaceType | undefined {
+    return this.webSpaceTypes.get(name.toLowerCase());
+  }
+
+  /**
+   * Check if a URL or typed address belongs to a web space
+   * (church://grace.church, apos://paul.apos, home.inspire, ...)
+   */
+  isInspireUrl(url: string): boolean {
+    const schemeMatch = /^([a-z][a-z0-9+.-]*):/i.exec(url.trim());
+    if (schemeMatch) {
+      return this.webSpaceTypes.has(schemeMatch[1].toLowerCase());
+    }
+    const parsed = this.parseInspireUrl(url);
+    return parsed !== null && parsed.explicitType;
+  }
+
+  /**
+   * Turn a typed address into its canonical {type}://{domain}.{type} URL
+   * Returns null if the input is not a web space address.
+   */
+  normalizeAddress(input: string): string | null {
+    const parsed = this.parseInspireUrl(input);
+    return parsed ? this.canonicalUrl(parsed) : null;
+  }
+
+  /**
+   * Hosts whose URLs may be sent to network sources for reverse resolution
+   * (in-memory sources are always consulted)
+   */
+  setPublicHosts(hosts: string[]): void {
+    this.publicHosts = hosts.map((host) => host.toLowerCase());
+  }
+
+  /**
+   * Map a public URL to its private web space address, like reverse_resolve_url()
+   * https://www.worldwidebibleweb.com/inspire/home/guide -> inspire://home.inspire/guide
+   */
+  async reverseResolve(publicUrl: string): Promise<string | null> {
+    let url: URL;
+    try {
+      url = new URL(publicUrl);
+    } catch {
+      return null;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+    const host = url.hostname.toLowerCase();
+    const askNetwork = this.publicHosts.some((publicHost) => host === publicHost || host.endsWith(`.${publicHost}`));
+
+    // Try the full path first, then each parent ("/inspire/home/guide" -> "/inspire/home" -> ...)
+    const segments = url.pathname.split('/').filter(Boolean);
+    for (let depth = segments.length; depth >= 0; depth--) {
+      const candidate = `${url.origin}/${segments.slice(0, depth).join('/')}`;
+      const remainder = segments.slice(depth).map((segment) => `/${segment}`).join('');
+
+      const privateUrl = this.reverseLookupSync(candidate) ??
+        (askNetwork ? await this.reverseLookupAsync(candidate) : null);
+      if (privateUrl) {
+        return this.normalizeAddress(`${privateUrl.replace(/\/+$/, '')}${remainder}${url.search}`);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Map a web space address to the public URL its content is served from, the inverse of reverseResolve
+   * inspire://home.inspire/guide -> https://www.worldwidebibleweb.com/inspire/home/guide
+   * Returns null for locations served from local content, which have no public URL.
+   */
+  async getPublicUrl(privateUrl: string): Promise<string | null> {
+    if (!this.parseInspireUrl(privateUrl)) return null;
+
+    const resolution = await this.resolve(privateUrl);
+    if (!resolution.success || !resolution.internalUrl) return null;
+    if (resolution.contentType !== 'hosted' && resolution.contentType !== 'distributed') return null;
+
+    return /^https?:\/\//i.test(resolution.internalUrl) ? resolution.internalUrl : null;
+  }
+
+  private reverseLookupSync(publicUrl: string): string | null {
+    for (const source of this.dnsSources) {
+      if (!source.reverseLookupSync) continue;
+      try {
+        const record = source.reverseLookupSync(publicUrl);
+        if (record) return record.privateUrl;
+      } catch (error) {
+        console.error(`[InspireResolver] DNS source "${source.name}" failed:`, error);
+      }
+    }
+
+    // Built-in hosted locations
+    const target = publicUrl.toLowerCase().replace(/\/+$/, '');
+    for (const location of this.registry.values()) {
+      if (location.remoteUrl && location.remoteUrl.toLowerCase().replace(/\/+$/, '') === target) {
+        const type = location.publicAddress.substring(location.publicAddress.lastIndexOf('.') + 1);
+        return `${type}://${location.publicAddress}`;
+      }
+    }
+
+    return null;
+  }
+
+  private async reverseLookupAsync(publicUrl: string): Promise<string | null> {
+    for (const source of this.dnsSources) {
+      if (source.reverseLookupSync) continue; // Already consulted
+      try {
+        const record = await source.reverseLookup(publicUrl);
+        if (record) return record.privateUrl;
+      } catch (error) {
+        console.error(`[InspireResolver] DNS source "${source.name}" failed:`, error);
+      }
+    }
+    return null;
+  }
+
+  getDnsSources(): InspireDnsSource[] {
+    return [...this.dnsSources];
+  }
+
   private initializeDefaultLocations(): void {
     // Register core JubileeBibles locations
 
@@ -82,8 +332,213 @@ export class InspireResolver {
     this.registry.set(location.internalAddress.toLowerCase(), location);
   }
 
-  resolve(url: string): Promise<InspireResolution> {
-    return Promise.resolve(this.resolveSync(url));
+  /**
+   * Location registered at a public or internal address
+   */
+  getLocation(address: string): InspireLocation | undefined {
+    return this.registry.get(address.toLowerCase());
+  }
+
+  /**
+   * Why a location cannot take these addresses, or null if it can
+   * Both addresses are registry keys, so neither may name another location
+   * (e.g. a built-in's "home.ins" or "guide.inspire").
+   */
+  checkAddresses(publicAddress: string, internalAddress: string): string | null {
+    const host = publicAddress.toLowerCase();
+    const internal = internalAddress.toLowerCase();
+    if (!INTERNAL_ADDRESS_PATTERN.test(internal)) {
+      return `Invalid internal address: ${internalAddress}`;
+    }
+
+    const holder = this.registry.get(host);
+    if (holder && holder.publicAddress.toLowerCase() !== host) {
+      return `${host} is the internal address of ${holder.publicAddress}`;
+    }
+    const owner = this.registry.get(internal);
+    if (owner && owner.publicAddress.toLowerCase() !== host) {
+      return `Internal address ${internal} is already used by ${owner.publicAddress}`;
+    }
+    return null;
+  }
+
+  /**
+   * Register a location in place of the one at its public address, releasing the old internal address
+   * Call checkAddresses first.
+   */
+  replaceLocation(location: InspireLocation): void {
+    const existing = this.registry.get(location.publicAddress.toLowerCase());
+    if (existing && existing.internalAddress.toLowerCase() !== location.internalAddress.toLowerCase()) {
+      this.registry.delete(existing.internalAddress.toLowerCase());
+    }
+    this.registerLocation(location);
+  }
+
+  /**
+   * Access requirements for a URL: the metadata of the location registered for its host
+   * DNS records carry no requirements, so these apply whichever source serves the host,
+   * and to every path within it.
+   */
+  getAccessMetadata(url: string): InspireMetadata | undefined {
+    const parsed = this.parseInspireUrl(url);
+    if (!parsed) return undefined;
+    return (this.registry.get(parsed.host) ?? this.registry.get(parsed.rawHost))?.metadata;
+  }
+
+  /**
+   * Locations in the built-in registry (built-in and accepted registrations), once each
+   */
+  getLocations(): InspireLocation[] {
+    return Array.from(new Set(this.registry.values()));
+  }
+
+  /**
+   * Keys allowed to sign registrations (no keys = signed registration disabled)
+   */
+  setTrustedKeys(trustedKeys: InspireTrustedKeys): void {
+    this.trustedKeys = trustedKeys;
+  }
+
+  /**
+   * Register or update a location from a steward-signed request
+   * Set skipFreshnessCheck when replaying previously accepted registrations.
+   */
+  registerSignedLocation(
+    request: InspireRegistrationRequest,
+    options: { skipFreshnessCheck?: boolean } = {}
+  ): InspireRegistrationResult {
+    if (!this.trustedKeys) {
+      return { success: false, error: 'No trusted keys are configured' };
+    }
+
+    const payload = request?.payload;
+    if (!payload || typeof payload.address !== 'string' || !payload.metadata?.name || !Number.isFinite(payload.issuedAt)) {
+      return { success: false, error: 'Registration payload is incomplete' };
+    }
+
+    const parsed = this.parseInspireUrl(payload.address);
+    if (!parsed || !parsed.explicitType || parsed.path !== '/') {
+      return { success: false, error: `Invalid address: ${payload.address}` };
+    }
+
+    if (!options.skipFreshnessCheck && Math.abs(Date.now() - payload.issuedAt) > REGISTRATION_MAX_AGE) {
+      return { success: false, error: 'Registration has expired; sign it again' };
+    }
+
+    const verification = this.trustedKeys.verify(request);
+    if (!verification.steward) {
+      return { success: false, error: verification.error };
+    }
+    if (payload.metadata.steward !== verification.steward) {
+      return { success: false, error: `Key "${request.keyId}" cannot sign for steward "${payload.metadata.steward ?? ''}"` };
+    }
+
+    // Stewards may only update their own locations; built-in locations have no steward
+    const existing = this.registry.get(parsed.host);
+    if (existing && existing.metadata.steward !== verification.steward) {
+      return { success: false, error: `${parsed.host} is stewarded by someone else` };
+    }
+
+    // A replayed older request may not roll back a newer update
+    const acceptedIssuedAt = this.registrationIssuedAt.get(parsed.host);
+    if (acceptedIssuedAt !== undefined && payload.issuedAt < acceptedIssuedAt) {
+      return { success: false, error: `A newer registration for ${parsed.host} has already been accepted` };
+    }
+
+    if (!payload.content && !payload.routes && !payload.remoteUrl && !payload.mirrors?.length) {
+      return { success: false, error: 'Registration must include content, routes, remoteUrl or mirrors' };
+    }
+
+    const internalAddress = typeof payload.internalAddress === 'string' && payload.internalAddress
+      ? payload.internalAddress.toLowerCase()
+      : `${parsed.domainName}.ins`;
+    const conflict = this.checkAddresses(parsed.host, internalAddress);
+    if (conflict) {
+      return { success: false, error: conflict };
+    }
+
+    this.replaceLocation({
+      publicAddress: parsed.host,
+      internalAddress,
+      metadata: payload.metadata,
+      content: payload.content,
+      routes: payload.routes,
+      remoteUrl: payload.remoteUrl,
+      mirrors: payload.mirrors,
+      integrity: payload.integrity,
+    });
+    this.registrationIssuedAt.set(parsed.host, payload.issuedAt);
+
+    console.log(`[InspireResolver] ${existing ? 'Updated' : 'Registered'} ${parsed.host} for ${verification.steward}`);
+    return { success: true, address: parsed.host, updated: !!existing };
+  }
+
+  async resolve(url: string): Promise<InspireResolution> {
+    const parsed = this.parseInspireUrl(url);
+    if (!parsed) {
+      return this.resolveSync(url);
+    }
+
+    // Serve cached host resolutions; stale ones are refreshed in the background
+    const cached = this.getCachedLocation(parsed);
+    if (cached) {
+      return this.resolveLocation(cached, parsed.path, parsed.query);
+    }
+
+    const location = await this.lookupSources(parsed);
+    if (location) {
+      this.cache?.set(parsed.host, location);
+      return this.resolveLocation(location, parsed.path, parsed.query);
+    }
+
+    // Distributed locations are fetched from their mirrors on every load
+    const registered = this.registry.get(parsed.host) ?? this.registry.get(parsed.rawHost);
+    if (registered?.mirrors?.length && this.isDistributedPath(registered, parsed.path)) {
+      return this.resolveDistributed(registered, parsed.path);
+    }
+
+    return this.resolveParsed(parsed, false);
+  }
+
+  /**
+   * Fetch from the preferred reachable mirror and verify the published hash
+   */
+  private async resolveDistributed(location: InspireLocation, routePath: string): Promise<InspireResolution> {
+    const normalizedPath = this.normalizeRoutePath(routePath);
+    const result = await this.mirrorSelector.fetch(
+      location.mirrors!,
+      normalizedPath,
+      location.integrity?.[normalizedPath]
+    );
+
+    if (!result) {
+      return {
+        success: false,
+        contentType: 'error',
+        metadata: location.metadata,
+        errorMessage: `No mirror of ${location.publicAddress} is reachable or serving verified content`,
+      };
+    }
+
+    return {
+      success: true,
+      internalUrl: `ins://${location.internalAddress}${normalizedPath === '/' ? '' : normalizedPath}`,
+      contentType: 'distributed',
+      body: result.body,
+      mimeType: result.contentType,
+      mirrorUrl: result.mirrorUrl,
+      integrityVerified: result.integrityVerified,
+      metadata: location.metadata,
+    };
+  }
+
+  /**
+   * Paths served by a location's own routes or files are never fetched from mirrors
+   */
+  private isDistributedPath(location: InspireLocation, routePath: string): boolean {
+    const normalizedPath = this.normalizeRoutePath(routePath);
+    if (normalizedPath === '/' && location.content) return false;
+    return location.routes?.[normalizedPath] === undefined;
   }
 
   resolveSync(url: string): InspireResolution {
@@ -98,95 +553,339 @@ export class InspireResolver {
         };
       }
 
-      // Look up the location
-      const location = this.registry.get(parsed.host.toLowerCase());
-      if (!location) {
-        return {
-          success: false,
-          contentType: 'error',
-          errorMessage: `Location not found: ${parsed.host}`,
-        };
-      }
+      return this.resolveParsed(parsed, true);
+    } catch (error) {
+      return {
+        success: false,
+        contentType: 'error',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
 
-      // Return the resolved content
-      if (location.content) {
-        return {
-          success: true,
-          internalUrl: `ins://${location.internalAddress}${parsed.path}`,
-          contentType: 'local',
-          content: location.content,
-          metadata: location.metadata,
-        };
+  /**
+   * Resolve without waiting on the network:
+   * in-memory DNS sources, then the resolution cache, then the built-in registry
+   */
+  private resolveParsed(parsed: ParsedInspireUrl, useCache: boolean): InspireResolution {
+    const location = this.lookupDnsSync(parsed.webSpaceType.fullName, parsed.domainName);
+    if (location) {
+      return this.resolveLocation(location, parsed.path, parsed.query);
+    }
+
+    const cached = useCache ? this.getCachedLocation(parsed) : null;
+    if (cached) {
+      return this.resolveLocation(cached, parsed.path, parsed.query);
+    }
+
+    const builtIn = this.registry.get(parsed.host) ?? this.registry.get(parsed.rawHost);
+    if (!builtIn) {
+      return {
+        success: false,
+        contentType: 'error',
+        errorMessage: `Location not found: ${parsed.host}`,
+      };
+    }
+
+    return this.resolveLocation(builtIn, parsed.path, parsed.query);
+  }
+
+  /**
+   * Query every source (including async-only ones such as HTTP)
+   */
+  private async lookupSources(parsed: ParsedInspireUrl): Promise<InspireCachedLocation | null> {
+    for (const source of this.dnsSources) {
+      try {
+        const record = await source.lookup(parsed.webSpaceType.fullName, parsed.domainName);
+        if (record) {
+          return this.locationFromDnsRecord(record);
+        }
+      } catch (error) {
+        console.error(`[InspireResolver] DNS source "${source.name}" failed:`, error);
       }
+    }
+    return null;
+  }
+
+  /**
+   * Read the host's cache entry, kicking off a background refresh for stale entries
+   */
+  private getCachedLocation(parsed: ParsedInspireUrl): InspireCachedLocation | null {
+    if (!this.cache) return null;
 
-      if (location.remoteUrl) {
+    const cached = this.cache.get(parsed.host);
+    if (!cached) return null;
+
+    if (cached.stale) {
+      this.revalidate(parsed);
+    }
+    return cached.location;
+  }
+
+  private revalidate(parsed: ParsedInspireUrl): void {
+    const key = parsed.host;
+    if (!this.cache || this.revalidating.has(key)) return;
+    this.revalidating.add(key);
+
+    this.lookupSources(parsed)
+      .then((location) => {
+        // Keep serving the stale entry if every source is unreachable (offline)
+        if (location && this.cache) {
+          this.cache.set(key, location);
+          this.cache.recordRevalidation();
+        }
+      })
+      .finally(() => {
+        this.revalidating.delete(key);
+      });
+  }
+
+  private resolveLocation(location: InspireLocation, routePath: string, query: string = ''): InspireResolution {
+    // Distributed: pick the preferred mirror without fetching (resolve() fetches and verifies)
+    if (location.mirrors?.length && this.isDistributedPath(location, routePath)) {
+      const mirror = this.mirrorSelector.pickMirror(location.mirrors)!;
+      return {
+        success: true,
+        internalUrl: `${mirror.url.replace(/\/+$/, '')}${this.normalizeRoutePath(routePath)}`,
+        contentType: 'distributed',
+        mirrorUrl: mirror.url,
+        metadata: location.metadata,
+      };
+    }
+
+    // Hosted: the protocol handler proxies this URL under the private address
+    if (location.remoteUrl && !location.content && !location.routes && !location.localDirectory) {
+      return {
+        success: true,
+        internalUrl: `${location.remoteUrl.replace(/\/+$/, '')}${routePath || '/'}${query}`,
+        remoteUrl: location.remoteUrl,
+        contentType: 'hosted',
+        metadata: location.metadata,
+      };
+    }
+
+    const normalizedPath = this.normalizeRoutePath(routePath);
+    const internalUrl = `ins://${location.internalAddress}${normalizedPath === '/' ? '' : normalizedPath}`;
+
+    // Root page
+    if (normalizedPath === '/' && location.content) {
+      return {
+        success: true,
+        internalUrl,
+        contentType: 'local',
+        content: location.content,
+        mimeType: 'text/html',
+        metadata: location.metadata,
+      };
+    }
+
+    // Static sub-pages
+    const routeContent = location.routes?.[normalizedPath];
+    if (routeContent !== undefined) {
+      return {
+        success: true,
+        internalUrl,
+        contentType: 'local',
+        content: routeContent,
+        mimeType: 'text/html',
+        metadata: location.metadata,
+      };
+    }
+
+    // Bundled files
+    if (location.localDirectory) {
+      const file = this.resolveLocalFile(location.localDirectory, normalizedPath);
+      if (file) {
         return {
           success: true,
-          internalUrl: location.remoteUrl,
-          contentType: 'hosted',
+          internalUrl,
+          contentType: 'local',
+          ...file,
           metadata: location.metadata,
         };
       }
+    }
 
+    if (!location.content && !location.routes && !location.localDirectory) {
       return {
         success: false,
         contentType: 'error',
         errorMessage: 'Location has no content source configured',
       };
+    }
+
+    // Unknown path within a known location
+    const errorMessage = `Page not found: ${location.publicAddress}${normalizedPath}`;
+    return {
+      success: false,
+      contentType: 'error',
+      content: location.notFoundContent ?? this.getErrorPage(errorMessage, 'Page Not Found'),
+      mimeType: 'text/html',
+      statusCode: 404,
+      metadata: location.metadata,
+      errorMessage,
+    };
+  }
+
+  /**
+   * Decode a URL path and collapse trailing slashes ("/guide/" -> "/guide")
+   */
+  private normalizeRoutePath(routePath: string): string {
+    let decoded = routePath || '/';
+    try {
+      decoded = decodeURIComponent(decoded);
+    } catch {
+      // Keep the raw path if it is not valid percent-encoding
+    }
+    const trimmed = decoded.replace(/\/+$/, '');
+    return trimmed.startsWith('/') ? trimmed || '/' : `/${trimmed}`;
+  }
+
+  /**
+   * Map a path onto a file inside the location's directory (index.html for directories)
+   * Paths that escape the directory are rejected.
+   */
+  private resolveLocalFile(
+    directory: string,
+    routePath: string
+  ): Pick<InspireResolution, 'content' | 'filePath' | 'mimeType'> | null {
+    const root = path.resolve(directory);
+    let filePath = path.resolve(root, `.${routePath}`);
+    if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+      return null;
+    }
+
+    try {
+      if (fs.existsSync(filePath) && fs.statSync(filePath).isDirectory()) {
+        filePath = path.join(filePath, 'index.html');
+      } else if (!fs.existsSync(filePath) && !path.extname(filePath)) {
+        // Allow extensionless links to pages ("/chapter-1" -> "chapter-1.html")
+        filePath = `${filePath}.html`;
+      }
+
+      if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+        return null;
+      }
+
+      const mimeType = MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+      if (TEXT_MIME_TYPES.has(mimeType)) {
+        return { content: fs.readFileSync(filePath, 'utf-8'), mimeType };
+      }
+      return { filePath, mimeType };
     } catch (error) {
-      return {
-        success: false,
-        contentType: 'error',
-        errorMessage: error instanceof Error ? error.message : 'Unknown error',
-      };
+      console.error(`[InspireResolver] Failed to read ${filePath}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Query the sources that can answer synchronously
+   */
+  private lookupDnsSync(webSpaceType: string, domainName: string): InspireLocation | null {
+    for (const source of this.dnsSources) {
+      if (!source.lookupSync) continue;
+      try {
+        const record = source.lookupSync(webSpaceType, domainName);
+        if (record) {
+          return this.locationFromDnsRecord(record);
+        }
+      } catch (error) {
+        console.error(`[InspireResolver] DNS source "${source.name}" failed:`, error);
+      }
     }
+
+    return null;
   }
 
-  private parseInspireUrl(url: string): { host: string; path: string; query: string } | null {
-    // Handle both inspire:// and plain address formats
-    let normalized = url;
+  /**
+   * Build a hosted location from a DNS record
+   */
+  private locationFromDnsRecord(record: InspireDnsRecord): InspireCachedLocation {
+    const abbrev = record.webSpaceTypeAbbrev || record.webSpaceType;
+    return {
+      publicAddress: `${record.domainName}.${record.webSpaceType}`,
+      internalAddress: `${record.domainName}.${abbrev}`,
+      metadata: {
+        name: record.description || `${record.domainName}.${record.webSpaceType}`,
+        description: record.description,
+      },
+      remoteUrl: record.resolvedUrl,
+    };
+  }
+
+  /**
+   * Parse any web space address into its parts
+   *
+   * Accepted forms:
+   *   church://grace.church   chur://grace.chur   inspire://jubileeverse.webspace
+   *   grace.church            home.insp           home  (shorthand for home.inspire)
+   */
+  private parseInspireUrl(url: string): ParsedInspireUrl | null {
+    let normalized = url.trim();
+    let schemeType: WebSpaceType | undefined;
 
-    if (url.startsWith('inspire://')) {
-      normalized = url.substring('inspire://'.length);
-    } else if (url.endsWith('.inspire')) {
-      normalized = url;
-    } else if (!url.includes('.inspire') && !url.includes('.ins')) {
-      // Assume it's a shorthand - append .inspire
-      normalized = `${url}.inspire`;
+    const schemeMatch = /^([a-z][a-z0-9+.-]*):\/\/(.*)$/i.exec(normalized);
+    if (schemeMatch) {
+      schemeType = this.findWebSpaceType(schemeMatch[1]);
+      if (!schemeType) return null;
+      normalized = schemeMatch[2];
     }
 
     // Parse host, path, query
-    const pathStart = normalized.indexOf('/');
-    const queryStart = normalized.indexOf('?');
+    const hostEnd = normalized.search(/[/?#]/);
+    const rawHost = (hostEnd > -1 ? normalized.substring(0, hostEnd) : normalized).toLowerCase();
+    const rest = hostEnd > -1 ? normalized.substring(hostEnd) : '';
+    const queryStart = rest.indexOf('?');
+    const fragmentStart = rest.indexOf('#');
+    const pathEnd = queryStart > -1 ? queryStart : (fragmentStart > -1 ? fragmentStart : rest.length);
+    const path = rest.substring(0, pathEnd) || '/';
+    const query = queryStart > -1
+      ? rest.substring(queryStart, fragmentStart > queryStart ? fragmentStart : rest.length)
+      : '';
 
-    let host: string;
-    let path = '/';
-    let query = '';
+    if (!rawHost || /\s/.test(rawHost)) return null;
 
-    if (pathStart > -1) {
-      host = normalized.substring(0, pathStart);
-      const pathEnd = queryStart > -1 ? queryStart : normalized.length;
-      path = normalized.substring(pathStart, pathEnd);
-    } else if (queryStart > -1) {
-      host = normalized.substring(0, queryStart);
-      query = normalized.substring(queryStart);
-    } else {
-      host = normalized;
+    // The host suffix names the type (grace.church, home.insp); otherwise fall back to the scheme
+    let domainName = rawHost;
+    let webSpaceType: WebSpaceType | undefined;
+    const lastDot = rawHost.lastIndexOf('.');
+    if (lastDot > -1) {
+      webSpaceType = this.findWebSpaceType(rawHost.substring(lastDot + 1));
+      if (webSpaceType) {
+        domainName = rawHost.substring(0, lastDot);
+      } else if (!schemeType) {
+        // A dotted host with an unknown suffix and no scheme is not a web space address
+        return null;
+      }
     }
 
-    if (!host) return null;
+    const explicitType = !!(webSpaceType || schemeType);
+    webSpaceType = webSpaceType ?? schemeType ?? this.findWebSpaceType('inspire')!;
+    if (!domainName) return null;
+
+    return {
+      host: `${domainName}.${webSpaceType.fullName}`,
+      rawHost,
+      domainName,
+      webSpaceType,
+      explicitType,
+      path,
+      query,
+    };
+  }
 
-    return { host, path, query };
+  private canonicalUrl(parsed: ParsedInspireUrl): string {
+    return `${parsed.webSpaceType.fullName}://${parsed.host}${parsed.path}${parsed.query}`;
   }
 
-  getErrorPage(message: string): string {
+  getErrorPage(message: string, heading: string = 'Location Not Found'): string {
     return `
 <!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Location Not Found - Jubilee Bibles</title>
+  <title>${this.escapeHtml(heading)} - Jubilee Bibles</title>
   <style>
     * { margin: 0; padding: 0; box-sizing: border-box; }
     body {
@@ -233,7 +932,7 @@ export class InspireResolver {
 </head>
 <body>
   <div class="container">
-    <h1>Location Not Found</h1>
+    <h1>${this.escapeHtml(heading)}</h1>
     <p>The Jubilee Bibles location you're looking for could not be found.</p>
     <div class="error-message">${this.escapeHtml(message)}</div>
     <p><a href="inspire://home.inspire">Return to Jubilee Bibles Home</a></p>
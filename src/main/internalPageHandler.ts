@@ -3,24 +3,84 @@
  * Handles jubilee:// protocol URLs for internal browser pages (settings, etc.)
  */
 
-import { BrowserSettings, DEFAULT_SETTINGS } from '../shared/types';
+import {
+  BrowserSettings,
+  DEFAULT_SETTINGS,
+  DEFAULT_BLOCKLIST_UPDATE_CONFIG,
+  BLOCKLIST_CATEGORIES,
+  UserListEntry,
+  UserListKind,
+} from '../shared/types';
+import { v4 as uuidv4 } from 'uuid';
+import { BlacklistManager, BlockEvent } from './blacklistManager';
+import { SearchEngineManager } from './searchEngineManager';
+
+const BLOCK_LOG_MODES: Record<string, string> = {
+  internet: 'Internet',
+  jubileebibles: 'Jubilee Bibles',
+};
+
+const BLOCK_LOG_MATCH_TYPES: Record<BlockEvent['matchType'], string> = {
+  exact: 'Exact domain',
+  subdomain: 'Subdomain',
+  keyword: 'Keyword',
+  url: 'URL',
+  user: 'Your blocklist',
+  filter: 'Network filter',
+};
+
+const BLOCK_LOG_RANGES: Record<string, { label: string; days?: number }> = {
+  '24h': { label: 'Last 24 hours', days: 1 },
+  '7d': { label: 'Last 7 days', days: 7 },
+  '30d': { label: 'Last 30 days', days: 30 },
+  all: { label: 'Everything kept' },
+};
+
+const BLOCK_LOG_MAX_ROWS = 200;
+
+// Filters of jubilee://blocked, carried over to its CSV export
+interface BlockLogFilters {
+  range: string;
+  mode: string;
+  match: string;
+  category: string;
+}
 
 export class InternalPageHandler {
   private settingsManager: any; // Will be injected
+  private blacklistManager: BlacklistManager | null = null; // Will be injected
+  private searchEngineManager: SearchEngineManager | null = null; // Will be injected
+  // Required by jubilee://blocked/clear so web pages cannot link to it
+  private blockLogToken: string = uuidv4();
 
   setSettingsManager(settingsManager: any): void {
     this.settingsManager = settingsManager;
   }
 
+  setBlacklistManager(blacklistManager: BlacklistManager): void {
+    this.blacklistManager = blacklistManager;
+  }
+
+  setSearchEngineManager(searchEngineManager: SearchEngineManager): void {
+    this.searchEngineManager = searchEngineManager;
+  }
+
   /**
-   * Handle a jubilee:// URL and return HTML content
+   * Handle a jubilee:// URL: an HTML page, or a file download for exports
    */
-  handle(url: string): string {
+  async handle(url: string): Promise<Electron.ProtocolResponse> {
     const path = url.replace('jubilee://', '').toLowerCase();
 
     // Strip trailing slashes and query strings for matching
     const cleanPath = path.split('?')[0].replace(/\/+$/, '');
 
+    if (cleanPath === 'blocked/export') {
+      return this.getBlockLogExport(url);
+    }
+    return { mimeType: 'text/html', data: await this.getPage(cleanPath, url) };
+  }
+
+  private getPage(cleanPath: string, url: string): string | Promise<string> {
     switch (cleanPath) {
       case 'settings':
       case 'settings/general':
@@ -47,6 +107,13 @@ export class InternalPageHandler {
         return this.getSettingsPage('reset');
       case 'about':
         return this.getAboutPage();
+      case 'blocked':
+        return this.getBlockLogPage(url);
+      case 'blocked/clear':
+        return this.clearBlockLog(url);
+      case 'blocked/proceed':
+      case 'blocked/report':
+        return this.getBlockActionPage(cleanPath, url);
       default:
         return this.get404Page(url);
     }
@@ -682,6 +749,42 @@ export class InternalPageHandler {
       margin-top: 24px;
     }
 
+    /* Safe Browsing - user lists */
+    .user-list-form {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 10px;
+      align-items: center;
+    }
+
+    .user-list-form .text-input {
+      min-width: 200px;
+      flex: 1;
+    }
+
+    .user-list-form .select-input {
+      min-width: 140px;
+    }
+
+    .user-list-error {
+      color: #ff6b6b;
+      font-size: 0.85rem;
+      min-height: 1.2em;
+      margin: 8px 0 16px;
+    }
+
+    .user-list-heading {
+      font-size: 0.95rem;
+      font-weight: 600;
+      margin: 16px 0 4px;
+    }
+
+    .user-list-empty {
+      color: var(--text-secondary);
+      font-size: 0.85rem;
+      padding: 8px 0;
+    }
+
     .learn-more-toggle {
       display: flex;
       align-items: center;
@@ -893,7 +996,7 @@ export class InternalPageHandler {
       });
 
       // Handle select dropdowns
-      document.querySelectorAll('.select-input').forEach(select => {
+      document.querySelectorAll('.select-input[data-setting]').forEach(select => {
         select.addEventListener('change', async function() {
           const settingKey = this.dataset.setting;
           const value = this.value;
@@ -909,7 +1012,7 @@ export class InternalPageHandler {
       });
 
       // Handle text inputs (on blur and enter key)
-      document.querySelectorAll('.text-input').forEach(input => {
+      document.querySelectorAll('.text-input[data-setting]').forEach(input => {
         const saveInput = async function() {
           const settingKey = this.dataset.setting;
           const value = this.value;
@@ -991,6 +1094,88 @@ export class InternalPageHandler {
         return path.split('.').reduce((o, k) => o && o[k], obj);
       }
 
+      // Handle Safe Browsing user list add/remove
+      const userListAddBtn = document.getElementById('userListAddBtn');
+      if (userListAddBtn) {
+        userListAddBtn.addEventListener('click', async function() {
+          const error = document.getElementById('userListError');
+          const result = await window.jubilee.blacklist.addUserEntry(
+            document.getElementById('userListKind').value,
+            document.getElementById('userListPattern').value,
+            document.getElementById('userListPatternType').value,
+            document.getElementById('userListReason').value
+          );
+          if (result.success) {
+            location.reload();
+          } else {
+            error.textContent = result.error || 'Could not add entry';
+          }
+        });
+      }
+
+      document.querySelectorAll('.user-list-remove').forEach(button => {
+        button.addEventListener('click', async function() {
+          await window.jubilee.blacklist.removeUserEntry(this.dataset.kind, this.dataset.id);
+          location.reload();
+        });
+      });
+
+      // Handle custom search engine add/remove
+      const searchEngineAddBtn = document.getElementById('searchEngineAddBtn');
+      if (searchEngineAddBtn) {
+        searchEngineAddBtn.addEventListener('click', async function() {
+          const error = document.getElementById('searchEngineError');
+          const result = await window.jubilee.search.addEngine(
+            document.getElementById('searchEngineName').value,
+            document.getElementById('searchEngineKeyword').value,
+            document.getElementById('searchEngineUrl').value
+          );
+          if (result.success) {
+            location.reload();
+          } else {
+            error.textContent = result.error || 'Could not add search engine';
+          }
+        });
+      }
+
+      document.querySelectorAll('.search-engine-remove').forEach(button => {
+        button.addEventListener('click', async function() {
+          await window.jubilee.search.removeEngine(this.dataset.id);
+          location.reload();
+        });
+      });
+
+      // Handle block report export/clear
+      const blockReportCount = document.getElementById('blockReportCount');
+      if (blockReportCount) {
+        window.jubilee.blacklist.getReports().then(reports => {
+          blockReportCount.textContent = reports.length === 1
+            ? '1 site reported. Export the reports to send them to support.'
+            : reports.length + ' sites reported. Export the reports to send them to support.';
+        });
+      }
+
+      const exportReportsBtn = document.getElementById('exportReportsBtn');
+      if (exportReportsBtn) {
+        exportReportsBtn.addEventListener('click', async function() {
+          const result = await window.jubilee.blacklist.exportReports();
+          if (result.success) {
+            showNotification('Reports exported');
+          }
+        });
+      }
+
+      const clearReportsBtn = document.getElementById('clearReportsBtn');
+      if (clearReportsBtn) {
+        clearReportsBtn.addEventListener('click', async function() {
+          if (confirm('Clear all block reports? This cannot be undone.')) {
+            await window.jubilee.blacklist.clearReports();
+            showNotification('Reports cleared');
+            setTimeout(() => location.reload(), 1000);
+          }
+        });
+      }
+
       // Handle Learn More toggle for Safe Browsing section
       const learnMoreToggle = document.getElementById('learnMoreToggle');
       const learnMoreContent = document.getElementById('learnMoreContent');
@@ -1195,7 +1380,7 @@ export class InternalPageHandler {
         <div class="setting-row">
           <div class="setting-info">
             <div class="setting-label">Send "Do Not Track" request</div>
-            <div class="setting-description">Ask websites not to track your browsing activity.</div>
+            <div class="setting-description">Ask websites not to track your browsing activity (sends DNT and Global Privacy Control headers).</div>
           </div>
           <label class="toggle-switch">
             <input type="checkbox" data-setting="privacy.doNotTrack" checked>
@@ -1205,7 +1390,7 @@ export class InternalPageHandler {
         <div class="setting-row">
           <div class="setting-info">
             <div class="setting-label">Tracking protection level</div>
-            <div class="setting-description">Choose how aggressively to block trackers.</div>
+            <div class="setting-description">Choose how aggressively to block trackers. Strict also applies EasyList and EasyPrivacy filters to scripts, images and other page requests.</div>
           </div>
           <div class="select-wrapper">
             <select class="select-input" data-setting="privacy.trackingProtection">
@@ -1425,6 +1610,19 @@ export class InternalPageHandler {
   }
 
   private getSearchSection(activeSection: string): string {
+    const engines = this.searchEngineManager?.getEngines() || DEFAULT_SETTINGS.search.engines;
+    const engineOptions = engines
+      .map(engine => `<option value="${this.escapeHtml(engine.id)}">${this.escapeHtml(engine.name)}</option>`)
+      .join('');
+    const engineRows = engines.map(engine => `
+        <div class="protection-category">
+          <div class="category-info">
+            <div class="category-title">${this.escapeHtml(engine.name)}</div>
+            <div class="category-description">${engine.keyword ? `Keyword: <strong>${this.escapeHtml(engine.keyword)}</strong> · ` : ''}${this.escapeHtml(engine.urlTemplate)}</div>
+          </div>
+          ${engine.isCustom ? `<button class="btn btn-secondary search-engine-remove" data-id="${this.escapeHtml(engine.id)}">Remove</button>` : ''}
+        </div>`).join('');
+
     return `
     <section class="settings-section ${activeSection === 'search' ? 'active' : ''}" id="section-search">
       <div class="section-header">
@@ -1440,16 +1638,29 @@ export class InternalPageHandler {
             <div class="setting-description">Choose the search engine used when typing in the address bar.</div>
           </div>
           <div class="select-wrapper">
-            <select class="select-input" data-setting="search.defaultEngine">
-              <option value="google">Google</option>
-              <option value="bing">Bing</option>
-              <option value="duckduckgo">DuckDuckGo</option>
-              <option value="yahoo">Yahoo</option>
+            <select class="select-input" data-setting="search.defaultEngine">${engineOptions}
             </select>
           </div>
         </div>
       </div>
 
+      <div class="settings-card">
+        <h3>Search Engines</h3>
+        <p class="setting-description" style="margin-bottom: 16px;">
+          Type an engine's keyword before your search to use it once, for example <strong>ddg bible verse</strong>.
+        </p>
+        ${engineRows}
+
+        <div class="user-list-heading">Add a search engine</div>
+        <div class="user-list-form">
+          <input type="text" class="text-input" id="searchEngineName" placeholder="Name">
+          <input type="text" class="text-input" id="searchEngineKeyword" placeholder="Keyword (optional)">
+          <input type="text" class="text-input" id="searchEngineUrl" placeholder="https://example.com/search?q={searchTerms}">
+          <button class="btn btn-primary" id="searchEngineAddBtn">Add</button>
+        </div>
+        <div class="user-list-error" id="searchEngineError"></div>
+      </div>
+
       <div class="settings-card">
         <h3>Address Bar</h3>
         <div class="setting-row">
@@ -1556,6 +1767,50 @@ export class InternalPageHandler {
         </div>
       </div>
 
+      <div class="settings-card">
+        <h3>Memory</h3>
+        <div class="setting-row">
+          <div class="setting-info">
+            <div class="setting-label">Hibernate background tabs</div>
+            <div class="setting-description">Unload tabs you haven't used for a while to free memory. They keep their place and reload when you select them. Pinned tabs and tabs playing audio stay loaded.</div>
+          </div>
+          <label class="toggle-switch">
+            <input type="checkbox" data-setting="advanced.hibernateTabs" checked>
+            <span class="toggle-slider"></span>
+          </label>
+        </div>
+        <div class="setting-row">
+          <div class="setting-info">
+            <div class="setting-label">Hibernate tabs after</div>
+            <div class="setting-description">How long a tab stays loaded in the background.</div>
+          </div>
+          <div class="select-wrapper">
+            <select class="select-input" data-setting="advanced.hibernateAfterMinutes">
+              <option value="5">5 minutes</option>
+              <option value="15">15 minutes</option>
+              <option value="30">30 minutes</option>
+              <option value="60">1 hour</option>
+              <option value="240">4 hours</option>
+            </select>
+          </div>
+        </div>
+        <div class="setting-row">
+          <div class="setting-info">
+            <div class="setting-label">Hibernate sooner above</div>
+            <div class="setting-description">When open tabs use more memory than this, the least recently used tabs are unloaded first.</div>
+          </div>
+          <div class="select-wrapper">
+            <select class="select-input" data-setting="advanced.hibernateMemoryLimitMB">
+              <option value="1024">1 GB</option>
+              <option value="2048">2 GB</option>
+              <option value="4096">4 GB</option>
+              <option value="8192">8 GB</option>
+              <option value="0">No limit</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
       <div class="settings-card">
         <h3>Language & Spelling</h3>
         <div class="setting-row">
@@ -1697,6 +1952,39 @@ export class InternalPageHandler {
           <span class="blocked-badge">Blocked</span>
         </div>`).join('');
 
+    // Blocklist source categories can be switched off individually
+    const toggles: Record<string, boolean> =
+      this.settingsManager?.getSettings().privacy.blocklistCategories || {};
+    const domainCounts = this.blacklistManager?.getStats().categories || {};
+    const sourceCategoryRows = BLOCKLIST_CATEGORIES.map(cat => `
+        <div class="setting-row">
+          <div class="setting-info">
+            <div class="setting-label">${cat.label}</div>
+            <div class="setting-description">${cat.description} ${(domainCounts[cat.id] || 0).toLocaleString()} domains listed.</div>
+          </div>
+          <label class="toggle-switch">
+            <input type="checkbox" data-setting="privacy.blocklistCategories.${cat.id}" ${toggles[cat.id] !== false ? 'checked' : ''}>
+            <span class="toggle-slider"></span>
+          </label>
+        </div>`).join('');
+
+    const stats = this.blacklistManager?.getStats();
+    const listVersion = stats?.version
+      ? `List version ${stats.version}${stats.updatedAt ? `, last updated ${new Date(stats.updatedAt).toLocaleString()}` : ''}.`
+      : 'The installed list has no version, so updates are not downloaded.';
+
+    const userLists = this.blacklistManager?.getUserLists() || { block: [], allow: [] };
+    const userListRows = (kind: UserListKind, entries: UserListEntry[]) => entries.length === 0
+      ? `<div class="user-list-empty">No entries yet.</div>`
+      : entries.map(entry => `
+        <div class="protection-category">
+          <div class="category-info">
+            <div class="category-title">${this.escapeHtml(entry.pattern)}</div>
+            <div class="category-description">${entry.patternType === 'url-prefix' ? 'URL prefix' : entry.patternType === 'wildcard' ? 'Wildcard' : 'Domain and subdomains'}${entry.reason ? ` · ${this.escapeHtml(entry.reason)}` : ''}</div>
+          </div>
+          <button class="btn btn-secondary user-list-remove" data-kind="${kind}" data-id="${entry.id}">Remove</button>
+        </div>`).join('');
+
     return `
     <section class="settings-section safe-browsing-section ${activeSection === 'safe-browsing' ? 'active' : ''}" id="section-safe-browsing">
       <div class="section-header">
@@ -1729,6 +2017,92 @@ export class InternalPageHandler {
           </div>
         </div>
       </div>
+
+      <div class="settings-card">
+        <h3>Blocklist Sources</h3>
+        <p style="color: var(--text-secondary); margin-bottom: 16px;">
+          Choose which community blocklist categories are enforced. Sites listed without a category are always blocked.
+        </p>
+        ${sourceCategoryRows}
+        <div class="setting-row">
+          <div class="setting-info">
+            <div class="setting-label">Update server</div>
+            <div class="setting-description">${listVersion} Signed updates are checked every few hours. Leave empty to use the Jubilee server.</div>
+          </div>
+          <input type="text" class="text-input" data-setting="privacy.blocklistUpdateUrl" value="" placeholder="${DEFAULT_BLOCKLIST_UPDATE_CONFIG.endpoint}">
+        </div>
+      </div>
+
+      <div class="settings-card">
+        <h3>Your Block & Allow Lists</h3>
+        <p style="color: var(--text-secondary); margin-bottom: 16px;">
+          Entries apply to this profile only. Allowed entries override every blocklist, so you can fix a false positive here.
+        </p>
+        <div class="user-list-form">
+          <div class="select-wrapper">
+            <select class="select-input" id="userListKind">
+              <option value="block">Block</option>
+              <option value="allow">Allow</option>
+            </select>
+          </div>
+          <div class="select-wrapper">
+            <select class="select-input" id="userListPatternType">
+              <option value="domain">Domain</option>
+              <option value="wildcard">Wildcard</option>
+              <option value="url-prefix">URL prefix</option>
+            </select>
+          </div>
+          <input type="text" class="text-input" id="userListPattern" placeholder="example.com, *.ads.example.com or https://example.com/page">
+          <input type="text" class="text-input" id="userListReason" placeholder="Reason (optional)">
+          <button class="btn btn-primary" id="userListAddBtn">Add</button>
+        </div>
+        <div class="user-list-error" id="userListError"></div>
+
+        <div class="user-list-heading">Blocked</div>
+        ${userListRows('block', userLists.block)}
+        <div class="user-list-heading">Allowed</div>
+        ${userListRows('allow', userLists.allow)}
+      </div>
+
+      <div class="settings-card">
+        <h3>Blocked Activity</h3>
+        <div class="setting-row">
+          <div class="setting-info">
+            <div class="setting-label">Block log</div>
+            <div class="setting-description">See what was blocked and why, with top domains and daily counts. The log can be exported as CSV.</div>
+          </div>
+          <button class="btn btn-secondary" onclick="location.href='jubilee://blocked'">View</button>
+        </div>
+        <div class="setting-row">
+          <div class="setting-info">
+            <div class="setting-label">Keep blocked activity for</div>
+            <div class="setting-description">Older entries are deleted from this profile.</div>
+          </div>
+          <div class="select-wrapper">
+            <select class="select-input" data-setting="privacy.blockLogRetentionDays">
+              <option value="1">1 day</option>
+              <option value="7">7 days</option>
+              <option value="30">30 days</option>
+              <option value="90">90 days</option>
+              <option value="365">1 year</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      <div class="settings-card">
+        <h3>Reported Mistakes</h3>
+        <div class="setting-row">
+          <div class="setting-info">
+            <div class="setting-label">Block reports</div>
+            <div class="setting-description" id="blockReportCount">Sites you reported from the block page are kept on this computer until you export or clear them.</div>
+          </div>
+          <div style="display: flex; gap: 8px;">
+            <button class="btn btn-secondary" id="exportReportsBtn">Export</button>
+            <button class="btn btn-danger" id="clearReportsBtn">Clear</button>
+          </div>
+        </div>
+      </div>
     </section>`;
   }
 
@@ -1844,6 +2218,424 @@ export class InternalPageHandler {
 </html>`;
   }
 
+  /**
+   * Block log filters from a jubilee://blocked or jubilee://blocked/export URL
+   */
+  private getBlockLogFilters(url: string): BlockLogFilters {
+    const params = new URLSearchParams(url.split('?')[1]?.split('#')[0] || '');
+    return {
+      range: BLOCK_LOG_RANGES[params.get('range') || ''] ? params.get('range')! : '7d',
+      mode: params.get('mode') || '',
+      match: params.get('match') || '',
+      category: params.get('category') || '',
+    };
+  }
+
+  /**
+   * Events matching the block log filters, newest first
+   */
+  private async queryBlockLog(filters: BlockLogFilters): Promise<BlockEvent[]> {
+    const rangeDays = BLOCK_LOG_RANGES[filters.range].days;
+    const from = rangeDays ? new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000) : undefined;
+    const allEvents = this.blacklistManager ? await this.blacklistManager.queryBlockLog(from) : [];
+    return allEvents
+      .filter((event) => !filters.mode || event.browserMode === filters.mode)
+      .filter((event) => !filters.match || event.matchType === filters.match)
+      .filter((event) => {
+        if (!filters.category) return true;
+        if (filters.category === 'uncategorized') return !event.sourceCategories;
+        return event.sourceCategories?.includes(filters.category) || false;
+      })
+      .reverse();
+  }
+
+  /**
+   * Get the block log page: recent blocks with filters, top domains, per-day counts and CSV export
+   */
+  private async getBlockLogPage(url: string): Promise<string> {
+    const filters = this.getBlockLogFilters(url);
+    const { range: rangeFilter, mode: modeFilter, match: matchFilter, category: categoryFilter } = filters;
+    const events = await this.queryBlockLog(filters);
+
+    // Top domains and per-day counts for the filtered events
+    const domainCounts = new Map<string, number>();
+    const dayCounts = new Map<string, number>();
+    for (const event of events) {
+      domainCounts.set(event.domain, (domainCounts.get(event.domain) || 0) + 1);
+      const day = this.formatDay(event.timestamp);
+      dayCounts.set(day, (dayCounts.get(day) || 0) + 1);
+    }
+    const topDomains = Array.from(domainCounts.entries()).sort((a, b) => b[1] - a[1]).slice(0, 10);
+    const days = Array.from(dayCounts.entries()).sort((a, b) => b[0].localeCompare(a[0])).slice(0, 30);
+    const maxDayCount = Math.max(1, ...days.map(([, count]) => count));
+
+    const option = (value: string, label: string, selected: string) =>
+      `<option value="${this.escapeHtml(value)}"${value === selected ? ' selected' : ''}>${this.escapeHtml(label)}</option>`;
+    const categoryLabel = (id: string) => BLOCKLIST_CATEGORIES.find((c) => c.id === id)?.label || id;
+
+    const rangeOptions = Object.entries(BLOCK_LOG_RANGES).map(([value, range]) => option(value, range.label, rangeFilter)).join('');
+    const modeOptions = Object.entries(BLOCK_LOG_MODES).map(([value, label]) => option(value, label, modeFilter)).join('');
+    const matchOptions = Object.entries(BLOCK_LOG_MATCH_TYPES).map(([value, label]) => option(value, label, matchFilter)).join('');
+    const categoryOptions = BLOCKLIST_CATEGORIES.map((c) => option(c.id, c.label, categoryFilter)).join('')
+      + option('uncategorized', 'Uncategorized', categoryFilter);
+
+    const topDomainRows = topDomains.length > 0
+      ? topDomains.map(([domain, count]) => `
+          <tr><td class="mono">${this.escapeHtml(domain)}</td><td class="count">${count}</td></tr>`).join('')
+      : '<tr><td class="empty" colspan="2">Nothing blocked</td></tr>';
+
+    const dayRows = days.length > 0
+      ? days.map(([day, count]) => `
+          <tr>
+            <td>${day}</td>
+            <td class="bar-cell"><div class="bar" style="width: ${Math.round((count / maxDayCount) * 100)}%"></div></td>
+            <td class="count">${count}</td>
+          </tr>`).join('')
+      : '<tr><td class="empty" colspan="3">Nothing blocked</td></tr>';
+
+    const eventRows = events.length > 0
+      ? events.slice(0, BLOCK_LOG_MAX_ROWS).map((event) => `
+          <tr>
+            <td class="nowrap">${this.escapeHtml(new Date(event.timestamp).toLocaleString())}</td>
+            <td>${this.escapeHtml(BLOCK_LOG_MODES[event.browserMode] || event.browserMode)}</td>
+            <td class="mono url" title="${this.escapeHtml(event.url)}">${this.escapeHtml(event.domain)}</td>
+            <td>${this.escapeHtml(BLOCK_LOG_MATCH_TYPES[event.matchType] || event.matchType)}</td>
+            <td class="mono">${this.escapeHtml(event.matchedPattern)}</td>
+            <td>${this.escapeHtml((event.sourceCategories || []).map(categoryLabel).join(', ') || '—')}</td>
+          </tr>`).join('')
+      : '<tr><td class="empty" colspan="6">No blocked requests match these filters.</td></tr>';
+
+    const shownNote = events.length > BLOCK_LOG_MAX_ROWS
+      ? `Showing the latest ${BLOCK_LOG_MAX_ROWS} of ${events.length} events. Export CSV for the full list.`
+      : `${events.length} event${events.length === 1 ? '' : 's'}`;
+
+    // The CSV is built only when Export is clicked (jubilee://blocked/export)
+    const exportParams = new URLSearchParams();
+    for (const [name, value] of Object.entries(filters)) {
+      if (value) exportParams.set(name, value);
+    }
+    exportParams.set('token', this.blockLogToken);
+    const csvHref = `jubilee://blocked/export?${exportParams.toString()}`;
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Blocked Activity - Jubilee Browser</title>
+  <style>
+    :root {
+      --bg-primary: #1a1a2e;
+      --bg-secondary: #16213e;
+      --bg-card: rgba(255, 255, 255, 0.05);
+      --border-color: rgba(255, 255, 255, 0.1);
+      --text-primary: #e8e8e8;
+      --text-secondary: #a0a0a0;
+      --accent-primary: #E6AC00;
+      --danger: #ff6b6b;
+    }
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: 'Segoe UI', system-ui, sans-serif;
+      background: linear-gradient(135deg, var(--bg-primary) 0%, var(--bg-secondary) 100%);
+      color: var(--text-primary);
+      min-height: 100vh;
+      padding: 32px;
+    }
+    .container { max-width: 1100px; margin: 0 auto; }
+    h1 { font-size: 1.8rem; color: var(--accent-primary); margin-bottom: 4px; }
+    h2 { font-size: 1.05rem; margin-bottom: 12px; }
+    .subtitle { color: var(--text-secondary); margin-bottom: 24px; }
+    .toolbar {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 12px;
+      align-items: center;
+      margin-bottom: 24px;
+    }
+    .toolbar form { display: flex; gap: 12px; flex-wrap: wrap; flex: 1; }
+    select {
+      background: rgba(255, 255, 255, 0.08);
+      color: var(--text-primary);
+      border: 1px solid var(--border-color);
+      border-radius: 8px;
+      padding: 8px 12px;
+      font-size: 0.9rem;
+    }
+    select option { background: var(--bg-secondary); }
+    .btn {
+      display: inline-block;
+      padding: 8px 16px;
+      border-radius: 8px;
+      font-size: 0.9rem;
+      text-decoration: none;
+      cursor: pointer;
+      background: rgba(255, 255, 255, 0.1);
+      color: var(--text-primary);
+      border: 1px solid var(--border-color);
+    }
+    .btn:hover { border-color: var(--accent-primary); }
+    .btn-danger {
+      background: rgba(255, 107, 107, 0.2);
+      color: var(--danger);
+      border-color: rgba(255, 107, 107, 0.3);
+    }
+    .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; margin-bottom: 16px; }
+    .card {
+      background: var(--bg-card);
+      border: 1px solid var(--border-color);
+      border-radius: 12px;
+      padding: 20px;
+    }
+    table { width: 100%; border-collapse: collapse; font-size: 0.88rem; }
+    th {
+      text-align: left;
+      color: var(--text-secondary);
+      font-weight: 500;
+      padding: 6px 8px;
+      border-bottom: 1px solid var(--border-color);
+    }
+    td { padding: 6px 8px; border-bottom: 1px solid rgba(255, 255, 255, 0.04); vertical-align: top; }
+    .mono { font-family: monospace; word-break: break-all; }
+    .url { color: var(--accent-primary); }
+    .nowrap { white-space: nowrap; }
+    .count { text-align: right; width: 60px; }
+    .bar-cell { width: 60%; }
+    .bar { height: 10px; border-radius: 5px; background: var(--accent-primary); min-width: 2px; margin-top: 4px; }
+    .empty { color: var(--text-secondary); text-align: center; padding: 16px; }
+    .note { color: var(--text-secondary); font-size: 0.85rem; margin-bottom: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>Blocked Activity</h1>
+    <p class="subtitle">Sites and requests Safe Browsing blocked, and why. How long the log is kept is set in Settings &rsaquo; Safe Browsing.</p>
+
+    <div class="toolbar">
+      <form id="filters">
+        <select name="range" onchange="applyFilters()">${rangeOptions}
+        </select>
+        <select name="mode" onchange="applyFilters()">
+          <option value="">All modes</option>${modeOptions}
+        </select>
+        <select name="match" onchange="applyFilters()">
+          <option value="">All match types</option>${matchOptions}
+        </select>
+        <select name="category" onchange="applyFilters()">
+          <option value="">All categories</option>${categoryOptions}
+        </select>
+      </form>
+      <a class="btn" href="${this.escapeHtml(csvHref)}">Export CSV</a>
+      <a class="btn btn-danger" href="jubilee://blocked/clear?token=${this.blockLogToken}"
+         onclick="return confirm('Clear the block log?')">Clear log</a>
+    </div>
+
+    <div class="grid">
+      <div class="card">
+        <h2>Top Blocked Domains</h2>
+        <table>${topDomainRows}
+        </table>
+      </div>
+      <div class="card">
+        <h2>Blocks per Day</h2>
+        <table>${dayRows}
+        </table>
+      </div>
+    </div>
+
+    <div class="card">
+      <h2>Recent Blocks</h2>
+      <p class="note">${shownNote}</p>
+      <table>
+        <tr><th>Time</th><th>Mode</th><th>Domain</th><th>Match</th><th>Pattern</th><th>Categories</th></tr>${eventRows}
+      </table>
+    </div>
+  </div>
+  <script>
+    // jubilee: is not a standard scheme, so build the query string rather than submitting the form
+    function applyFilters() {
+      const params = new URLSearchParams();
+      for (const [name, value] of new FormData(document.getElementById('filters'))) {
+        if (value) params.set(name, value);
+      }
+      const query = params.toString();
+      location.href = 'jubilee://blocked' + (query ? '?' + query : '');
+    }
+  </script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Handle "Clear log" on jubilee://blocked
+   */
+  private clearBlockLog(url: string): string {
+    const token = (url.match(/[?&]token=([^&#]+)/) || [])[1] || '';
+    if (!this.blacklistManager || token !== this.blockLogToken) {
+      return this.getMessagePage('Log Not Cleared', 'This page has expired. Reopen Blocked Activity and try again.');
+    }
+
+    this.blacklistManager.clearBlockLog();
+    return this.getRedirectPage('jubilee://blocked');
+  }
+
+  /**
+   * Handle "Export CSV" on jubilee://blocked: download the filtered events
+   */
+  private async getBlockLogExport(url: string): Promise<Electron.ProtocolResponse> {
+    const token = (url.match(/[?&]token=([^&#]+)/) || [])[1] || '';
+    if (!this.blacklistManager || token !== this.blockLogToken) {
+      return {
+        mimeType: 'text/html',
+        data: this.getMessagePage('Log Not Exported', 'This page has expired. Reopen Blocked Activity and try again.'),
+      };
+    }
+
+    const events = await this.queryBlockLog(this.getBlockLogFilters(url));
+    const fileName = `jubilee-block-log-${this.formatDay(new Date().toISOString())}.csv`;
+    return {
+      mimeType: 'text/csv',
+      charset: 'utf-8',
+      headers: { 'Content-Disposition': `attachment; filename="${fileName}"` },
+      data: this.getBlockLogCsv(events),
+    };
+  }
+
+  private getBlockLogCsv(events: BlockEvent[]): string {
+    const cell = (value: string): string => {
+      // Keep spreadsheets from evaluating patterns such as "-ad-" or "=cmd" as formulas
+      const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const header = ['timestamp', 'mode', 'domain', 'url', 'match_type', 'matched_pattern', 'categories'];
+    const rows = events.map((event) => [
+      event.timestamp,
+      event.browserMode,
+      event.domain,
+      event.url,
+      event.matchType,
+      event.matchedPattern,
+      (event.sourceCategories || []).join(' '),
+    ].map(cell).join(','));
+
+    return [header.join(','), ...rows].join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Local calendar day (YYYY-MM-DD) of an ISO timestamp
+   */
+  private formatDay(timestamp: string): string {
+    const date = new Date(timestamp);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  /**
+   * Handle "Proceed anyway" and "Report a mistake" links from the block page
+   */
+  private getBlockActionPage(action: string, url: string): string {
+    const blockId = (url.match(/[?&]id=([^&#]+)/) || [])[1] || '';
+
+    if (action === 'blocked/proceed') {
+      const continueUrl = this.blacklistManager?.proceedAnyway(blockId);
+      if (continueUrl) {
+        // Replace this page so Back returns to where the user came from
+        return this.getRedirectPage(continueUrl);
+      }
+      return this.getMessagePage(
+        'Cannot Proceed',
+        'This block cannot be bypassed. Sites flagged for malware or phishing are always blocked.'
+      );
+    }
+
+    const report = this.blacklistManager?.reportMistake(blockId);
+    return report
+      ? this.getMessagePage(
+        'Thanks for the Report',
+        'The blocked address has been saved on this computer. You can export your reports from Settings &rsaquo; Safe Browsing and send them to support.',
+        report.url
+      )
+      : this.getMessagePage('Report Not Saved', 'This block page has expired. Reload the site and try again.');
+  }
+
+  /**
+   * Navigate to a URL, replacing the current history entry
+   */
+  private getRedirectPage(url: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="refresh" content="0;url=${this.escapeHtml(url)}">
+  <script>location.replace(${JSON.stringify(url).replace(/</g, '\\u003c')});</script>
+</head>
+<body></body>
+</html>`;
+  }
+
+  private getMessagePage(heading: string, message: string, detail?: string): string {
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${heading} - Jubilee Browser</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: 'Segoe UI', system-ui, sans-serif;
+      background: linear-gradient(135deg, #1a1a2e 0%, #16213e 100%);
+      color: #e8e8e8;
+      min-height: 100vh;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+    }
+    .container {
+      text-align: center;
+      padding: 3rem;
+      max-width: 500px;
+    }
+    h1 {
+      font-size: 2rem;
+      margin-bottom: 1rem;
+      color: #E6AC00;
+    }
+    p {
+      color: #a0a0a0;
+      line-height: 1.6;
+      margin-bottom: 1rem;
+    }
+    .detail {
+      font-family: monospace;
+      word-break: break-all;
+      color: #E6AC00;
+      margin: 1.5rem 0;
+    }
+    a {
+      color: #E6AC00;
+      text-decoration: none;
+      cursor: pointer;
+    }
+    a:hover {
+      text-decoration: underline;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>${heading}</h1>
+    <p>${message}</p>
+    ${detail ? `<div class="detail">${this.escapeHtml(detail)}</div>` : ''}
+    <p><a onclick="history.back()">Go Back</a></p>
+  </div>
+</body>
+</html>`;
+  }
+
   /**
    * Get 404 page for unknown internal URLs
    */
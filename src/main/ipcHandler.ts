@@ -3,7 +3,7 @@
  * Handles all IPC communication between main and renderer processes
  */
 
-import { ipcMain, BrowserWindow } from 'electron';
+import { ipcMain, BrowserWindow, dialog } from 'electron';
 import {
   IPC_CHANNELS,
   BrowserMode,
@@ -12,6 +12,9 @@ import {
   SignInRequest,
   ParticipationFeature,
   JubileeUserProfile,
+  InspireRegistrationRequest,
+  UserListKind,
+  UserListPatternType,
 } from '../shared/types';
 import { TabManager } from './tabManager';
 import { ModeManager } from './modeManager';
@@ -22,7 +25,13 @@ import { WindowManager } from './windowManager';
 import { SettingsManager } from './settingsManager';
 import { UpdateManager } from './updateManager';
 import { SessionStateManager } from './sessionStateManager';
-import { AuthenticationManager, getAuthenticationManager } from './authenticationManager';
+import { UserBlocklist } from './userBlocklist';
+import { BlockReportQueue } from './blockReportQueue';
+import { TrackingProtection } from './trackingProtection';
+import { SearchEngineManager } from './searchEngineManager';
+import { OmniboxSuggestionProvider } from './omniboxSuggestions';
+import { AuthenticationManager, SignInReturn, getAuthenticationManager } from './authenticationManager';
+import { InspireRegistrationStore } from './inspireRegistrations';
 
 export class IPCHandler {
   private tabManager: TabManager;
@@ -34,6 +43,12 @@ export class IPCHandler {
   private settingsManager: SettingsManager;
   private updateManager: UpdateManager | null = null;
   private sessionStateManager: SessionStateManager | null = null;
+  private inspireRegistrationStore: InspireRegistrationStore | null = null;
+  private userBlocklist: UserBlocklist | null = null;
+  private blockReportQueue: BlockReportQueue | null = null;
+  private trackingProtection: TrackingProtection | null = null;
+  private searchEngineManager: SearchEngineManager | null = null;
+  private omniboxSuggestions: OmniboxSuggestionProvider | null = null;
   private authManager: AuthenticationManager;
   private mainWindow: BrowserWindow | null = null;
 
@@ -70,6 +85,48 @@ export class IPCHandler {
     this.sessionStateManager = sessionStateManager;
   }
 
+  /**
+   * Set the store for accepted inspire registrations (injected after construction)
+   */
+  setInspireRegistrationStore(store: InspireRegistrationStore): void {
+    this.inspireRegistrationStore = store;
+  }
+
+  /**
+   * Set the active profile's Safe Browsing user lists (injected after construction)
+   */
+  setUserBlocklist(userBlocklist: UserBlocklist): void {
+    this.userBlocklist = userBlocklist;
+  }
+
+  /**
+   * Set the active profile's block report queue (injected after construction)
+   */
+  setBlockReportQueue(blockReportQueue: BlockReportQueue): void {
+    this.blockReportQueue = blockReportQueue;
+  }
+
+  /**
+   * Set the tracking protection engine for per-tab counters (injected after construction)
+   */
+  setTrackingProtection(trackingProtection: TrackingProtection): void {
+    this.trackingProtection = trackingProtection;
+  }
+
+  /**
+   * Set the address bar search engines (injected after construction)
+   */
+  setSearchEngineManager(searchEngineManager: SearchEngineManager): void {
+    this.searchEngineManager = searchEngineManager;
+  }
+
+  /**
+   * Set the address bar suggestion provider (injected after construction)
+   */
+  setOmniboxSuggestionProvider(omniboxSuggestions: OmniboxSuggestionProvider): void {
+    this.omniboxSuggestions = omniboxSuggestions;
+  }
+
   initialize(mainWindow: BrowserWindow): void {
     this.mainWindow = mainWindow;
     this.modeManager.initialize(mainWindow);
@@ -77,6 +134,18 @@ export class IPCHandler {
 
     // Initialize authentication manager with main window
     this.authManager.initialize(mainWindow);
+
+    // Show the sign-in UI whenever a feature or gated location asks for it
+    this.authManager.on('sign-in-required', (feature?: ParticipationFeature, returnTo?: SignInReturn) => {
+      if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+        const tabId = returnTo ? this.tabManager.getTabIdForWebContents(returnTo.webContentsId) : undefined;
+        this.mainWindow.webContents.send('auth:show-sign-in', {
+          feature,
+          url: tabId ? returnTo?.url : undefined,
+          tabId,
+        });
+      }
+    });
   }
 
   private registerHandlers(): void {
@@ -190,6 +259,15 @@ export class IPCHandler {
       }
     });
 
+    ipcMain.handle(IPC_CHANNELS.TAB_GET_MODE_MOVE, async (_, tabId: string) => {
+      return this.tabManager.getModeMove(tabId);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.TAB_MOVE_TO_MODE, (_, data: { tabId: string; mode: BrowserMode; url: string }) => {
+      const success = this.tabManager.moveTabToMode(data.tabId, data.mode, data.url);
+      return { success, tabs: this.tabManager.getTabList() };
+    });
+
     // Navigation
     ipcMain.handle(IPC_CHANNELS.NAV_GO, (_, url: string) => {
       this.tabManager.navigateTo(url);
@@ -270,6 +348,44 @@ export class IPCHandler {
       return this.inspireResolver.resolve(url);
     });
 
+    // Steward registration: requires domain_management, then a trusted signature
+    ipcMain.handle(IPC_CHANNELS.INSPIRE_REGISTER, async (_, request: InspireRegistrationRequest) => {
+      const permission = await this.authManager.checkPermission('domain_management');
+      if (!permission.allowed) {
+        if (permission.requiresAuth) {
+          this.authManager.requestSignIn('domain_management');
+        }
+        return { success: false, error: permission.reason };
+      }
+
+      const result = this.inspireResolver.registerSignedLocation(request);
+      if (result.success && result.address) {
+        this.inspireRegistrationStore?.save(result.address, request);
+      }
+      return result;
+    });
+
+    ipcMain.handle(IPC_CHANNELS.INSPIRE_NORMALIZE, (_, input: string) => {
+      return this.inspireResolver.normalizeAddress(input);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.INSPIRE_GET_TYPES, () => {
+      return this.inspireResolver.getWebSpaceTypes();
+    });
+
+    ipcMain.handle(IPC_CHANNELS.INSPIRE_REVERSE_RESOLVE, async (_, url: string) => {
+      return this.inspireResolver.reverseResolve(url);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.INSPIRE_CACHE_STATS, () => {
+      return this.inspireResolver.getCacheStats();
+    });
+
+    ipcMain.handle(IPC_CHANNELS.INSPIRE_CACHE_CLEAR, () => {
+      this.inspireResolver.clearCache();
+      return { success: true };
+    });
+
     // Window controls
     ipcMain.handle(IPC_CHANNELS.WINDOW_MINIMIZE, () => {
       this.windowManager.minimize();
@@ -359,6 +475,83 @@ export class IPCHandler {
       }
     });
 
+    // Safe Browsing - per-profile user block/allow lists
+    ipcMain.handle(IPC_CHANNELS.SAFE_BROWSING_GET_USER_LISTS, () => {
+      return this.userBlocklist?.getLists() || { block: [], allow: [] };
+    });
+
+    ipcMain.handle(
+      IPC_CHANNELS.SAFE_BROWSING_ADD_ENTRY,
+      (_, kind: UserListKind, pattern: string, patternType: UserListPatternType, reason?: string) => {
+        if (!this.userBlocklist) {
+          return { success: false, error: 'User lists are not available' };
+        }
+        return this.userBlocklist.addEntry(kind, pattern, patternType, reason);
+      }
+    );
+
+    ipcMain.handle(IPC_CHANNELS.SAFE_BROWSING_REMOVE_ENTRY, (_, kind: UserListKind, id: string) => {
+      return { success: this.userBlocklist?.removeEntry(kind, id) ?? false };
+    });
+
+    // Safe Browsing - reports filed from the block page
+    ipcMain.handle(IPC_CHANNELS.SAFE_BROWSING_GET_REPORTS, () => {
+      return this.blockReportQueue?.getAll() || [];
+    });
+
+    ipcMain.handle(IPC_CHANNELS.SAFE_BROWSING_EXPORT_REPORTS, async () => {
+      if (!this.blockReportQueue || !this.mainWindow) {
+        return { success: false, error: 'Reports are not available' };
+      }
+
+      const { canceled, filePath } = await dialog.showSaveDialog(this.mainWindow, {
+        title: 'Export Block Reports',
+        defaultPath: `jubilee-block-reports-${new Date().toISOString().slice(0, 10)}.json`,
+        filters: [{ name: 'JSON', extensions: ['json'] }],
+      });
+      if (canceled || !filePath) {
+        return { success: false };
+      }
+
+      try {
+        this.blockReportQueue.exportTo(filePath);
+        return { success: true, filePath };
+      } catch (error) {
+        console.error('Failed to export block reports:', error);
+        return { success: false, error: String(error) };
+      }
+    });
+
+    ipcMain.handle(IPC_CHANNELS.SAFE_BROWSING_CLEAR_REPORTS, () => {
+      this.blockReportQueue?.clear();
+      return { success: true };
+    });
+
+    // Address bar input and search engines
+    ipcMain.handle(IPC_CHANNELS.OMNIBOX_RESOLVE, (_, input: string) => {
+      return this.searchEngineManager?.resolveInput(input) || null;
+    });
+
+    ipcMain.handle(IPC_CHANNELS.OMNIBOX_SUGGEST, (_, input: string, mode: BrowserMode) => {
+      return this.omniboxSuggestions?.getSuggestions(input, mode) || [];
+    });
+
+    ipcMain.handle(IPC_CHANNELS.SEARCH_ADD_ENGINE, (_, name: string, keyword: string, urlTemplate: string) => {
+      if (!this.searchEngineManager) {
+        return { success: false, error: 'Search engines are not available' };
+      }
+      return this.searchEngineManager.addEngine(name, keyword, urlTemplate);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.SEARCH_REMOVE_ENGINE, (_, id: string) => {
+      return { success: this.searchEngineManager?.removeEngine(id) ?? false };
+    });
+
+    // Tracking protection counters for a tab's current page
+    ipcMain.handle(IPC_CHANNELS.TRACKING_PROTECTION_GET_STATS, (_, webContentsId: number) => {
+      return this.trackingProtection?.getStats(webContentsId) || null;
+    });
+
     // Handle tab state updates from renderer (webview events)
     ipcMain.on('tab:state-update', (_, data: { tabId: string; updates: Partial<TabState> }) => {
       this.tabManager.updateTabState(data.tabId, data.updates);
@@ -376,6 +569,11 @@ export class IPCHandler {
       }
     });
 
+    // Audio playback in a tab's webview (playing tabs are not hibernated)
+    ipcMain.on('tab:audible', (_, data: { tabId: string; isAudible: boolean }) => {
+      this.tabManager.setTabAudible(data.tabId, data.isAudible);
+    });
+
     // Handle webview creation
     ipcMain.on('webview:ready', (_, data: { tabId: string; webContentsId: number }) => {
       this.tabManager.setTabWebContents(data.tabId, data.webContentsId);
@@ -487,13 +685,8 @@ export class IPCHandler {
 
     // Show sign-in UI (triggers modal or panel)
     ipcMain.handle(IPC_CHANNELS.AUTH_SHOW_SIGN_IN, (_, feature?: ParticipationFeature) => {
-      if (feature) {
-        this.authManager.requestSignIn(feature);
-      }
-      // Notify renderer to show sign-in UI
-      if (this.mainWindow && !this.mainWindow.isDestroyed()) {
-        this.mainWindow.webContents.send('auth:show-sign-in', { feature });
-      }
+      // Renderer is notified through the 'sign-in-required' listener
+      this.authManager.requestSignIn(feature);
       return { success: true };
     });
 
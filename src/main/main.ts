@@ -3,7 +3,7 @@
  * Entry point for the Electron application
  */
 
-import { app, BrowserWindow, session, ipcMain, globalShortcut, dialog } from 'electron';
+import { app, BrowserWindow, session, ipcMain, globalShortcut, dialog, protocol } from 'electron';
 import * as path from 'path';
 
 // Handle uncaught exceptions gracefully to prevent EPIPE errors
@@ -27,28 +27,71 @@ import { WindowManager } from './windowManager';
 import { TabManager } from './tabManager';
 import { ModeManager } from './modeManager';
 import { InspireResolver } from './inspireResolver';
+import { JsonReplicaDnsSource, HttpDnsSource } from './inspireDnsSource';
+import { InspireResolutionCache } from './inspireResolutionCache';
+import { InspireProtocolHandler } from './inspireProtocolHandler';
+import { InspireAccessControl } from './inspireAccessControl';
+import { InspireBundleLoader } from './inspireBundleLoader';
+import { InspireTrustedKeys, InspireRegistrationStore } from './inspireRegistrations';
+import { getAuthenticationManager } from './authenticationManager';
+import { ProfileManager } from './profileManager';
 import { HistoryManager } from './historyManager';
 import { BookmarkManager } from './bookmarkManager';
 import { NavigationInterceptor } from './navigationInterceptor';
 import { IPCHandler } from './ipcHandler';
 import { SettingsManager } from './settingsManager';
 import { BlacklistManager } from './blacklistManager';
+import { UserBlocklist } from './userBlocklist';
+import { BlockReportQueue } from './blockReportQueue';
+import { BlockLogStore } from './blockLogStore';
+import { TrackingProtection } from './trackingProtection';
+import { SearchEngineManager } from './searchEngineManager';
+import { getNavigationProtocols } from './urlFixup';
+import { OmniboxSuggestionProvider } from './omniboxSuggestions';
+import { BlocklistUpdater } from './blocklistUpdater';
+import { TabHibernator } from './tabHibernator';
 import { UpdateManager } from './updateManager';
 import { SessionStateManager } from './sessionStateManager';
 import { FirstRunManager } from './firstRunManager';
 import { InternalPageHandler } from './internalPageHandler';
+import { DEFAULT_INSPIRE_DNS_CONFIG, DEFAULT_WEB_SPACE_TYPES, InspireRegistrationRequest } from '../shared/types';
+
+// Web space schemes must be standard before the app is ready so hosted and
+// multi-page locations can use relative links (/css/site.css) and fetch().
+// Types that only appear in a DNS replica still resolve, but without these privileges.
+protocol.registerSchemesAsPrivileged(
+  DEFAULT_WEB_SPACE_TYPES
+    .flatMap((type) => (type.abbreviation ? [type.fullName, type.abbreviation] : [type.fullName]))
+    .map((scheme) => ({
+      scheme,
+      privileges: { standard: true, secure: true, supportFetchAPI: true, stream: true },
+    }))
+);
 
 class JubileeBrowser {
   private windowManager!: WindowManager;
   private tabManager!: TabManager;
   private modeManager!: ModeManager;
   private inspireResolver!: InspireResolver;
+  private inspireCache!: InspireResolutionCache;
+  private inspireProtocolHandler!: InspireProtocolHandler;
+  private inspireAccessControl!: InspireAccessControl;
+  private inspireRegistrationStore!: InspireRegistrationStore;
+  private profileManager!: ProfileManager;
   private historyManager!: HistoryManager;
   private bookmarkManager!: BookmarkManager;
   private navigationInterceptor!: NavigationInterceptor;
   private ipcHandler!: IPCHandler;
   private settingsManager!: SettingsManager;
   private blacklistManager!: BlacklistManager;
+  private userBlocklist!: UserBlocklist;
+  private blockReportQueue!: BlockReportQueue;
+  private blockLogStore!: BlockLogStore;
+  private trackingProtection!: TrackingProtection;
+  private searchEngineManager!: SearchEngineManager;
+  private omniboxSuggestions!: OmniboxSuggestionProvider;
+  private blocklistUpdater!: BlocklistUpdater;
+  private tabHibernator!: TabHibernator;
   private updateManager!: UpdateManager;
   private sessionStateManager!: SessionStateManager;
   private firstRunManager!: FirstRunManager;
@@ -79,21 +122,50 @@ class JubileeBrowser {
 
     // Initialize managers after app is ready
     this.settingsManager = new SettingsManager();
+    this.profileManager = new ProfileManager();
     this.inspireResolver = new InspireResolver();
+    this.configureInspireDns();
+    this.inspireAccessControl = new InspireAccessControl(getAuthenticationManager());
+    this.inspireProtocolHandler = new InspireProtocolHandler(this.inspireResolver, this.inspireAccessControl);
     this.internalPageHandler = new InternalPageHandler();
     this.internalPageHandler.setSettingsManager(this.settingsManager);
     this.modeManager = new ModeManager(this.settingsManager);
+    this.modeManager.setWebSpaceSchemes(this.inspireResolver.getProtocolSchemes());
     this.historyManager = new HistoryManager();
     this.bookmarkManager = new BookmarkManager();
     this.blacklistManager = new BlacklistManager();
+    this.blacklistManager.setSettingsManager(this.settingsManager);
+    this.userBlocklist = new UserBlocklist(this.profileManager.getActiveProfileDataPath());
+    this.blacklistManager.setUserBlocklist(this.userBlocklist);
+    this.blockReportQueue = new BlockReportQueue(this.profileManager.getActiveProfileDataPath());
+    this.blacklistManager.setReportQueue(this.blockReportQueue);
+    this.blockLogStore = new BlockLogStore(this.settingsManager, this.profileManager.getActiveProfileDataPath());
+    this.blacklistManager.setBlockLogStore(this.blockLogStore);
+    this.internalPageHandler.setBlacklistManager(this.blacklistManager);
+    this.blocklistUpdater = new BlocklistUpdater(this.blacklistManager, this.settingsManager);
+    this.trackingProtection = new TrackingProtection(this.settingsManager);
+    this.searchEngineManager = new SearchEngineManager(this.settingsManager);
+    this.searchEngineManager.setWebSpaceSchemes(this.inspireResolver.getProtocolSchemes());
+    this.internalPageHandler.setSearchEngineManager(this.searchEngineManager);
     this.windowManager = new WindowManager(); // Now safe to call - app is ready
     this.tabManager = new TabManager(this.modeManager, this.inspireResolver);
+    this.tabHibernator = new TabHibernator(this.tabManager, this.settingsManager);
+    this.omniboxSuggestions = new OmniboxSuggestionProvider(
+      this.historyManager,
+      this.bookmarkManager,
+      this.tabManager,
+      this.inspireResolver,
+      this.settingsManager,
+      this.searchEngineManager
+    );
     this.navigationInterceptor = new NavigationInterceptor(
       this.modeManager,
       this.inspireResolver,
       this.historyManager,
       this.blacklistManager
     );
+    this.navigationInterceptor.setTrackingProtection(this.trackingProtection);
+    this.navigationInterceptor.setInspireAccessControl(this.inspireAccessControl);
     this.ipcHandler = new IPCHandler(
       this.tabManager,
       this.modeManager,
@@ -111,6 +183,12 @@ class JubileeBrowser {
     // Inject managers into IPC handler
     this.ipcHandler.setUpdateManager(this.updateManager);
     this.ipcHandler.setSessionStateManager(this.sessionStateManager);
+    this.ipcHandler.setInspireRegistrationStore(this.inspireRegistrationStore);
+    this.ipcHandler.setUserBlocklist(this.userBlocklist);
+    this.ipcHandler.setBlockReportQueue(this.blockReportQueue);
+    this.ipcHandler.setTrackingProtection(this.trackingProtection);
+    this.ipcHandler.setSearchEngineManager(this.searchEngineManager);
+    this.ipcHandler.setOmniboxSuggestionProvider(this.omniboxSuggestions);
 
     // Configure security settings
     this.configureSecurityPolicy();
@@ -148,6 +226,7 @@ class JubileeBrowser {
 
     // Step 3: Set up navigation interception
     this.navigationInterceptor.initialize(this.mainWindow);
+    this.trackingProtection.initialize(this.mainWindow);
 
     // Step 4: Initialize tab manager with the main window
     this.tabManager.initialize(this.mainWindow);
@@ -158,6 +237,12 @@ class JubileeBrowser {
     // Step 6: Initialize the update manager (starts background update checks)
     this.updateManager.initialize(this.mainWindow);
 
+    // Step 7: Start incremental blocklist updates
+    this.blocklistUpdater.start();
+
+    // Step 8: Start unloading idle background tabs
+    this.tabHibernator.start();
+
     // Handle app activation (macOS)
     app.on('activate', async () => {
       if (BrowserWindow.getAllWindows().length === 0) {
@@ -176,9 +261,13 @@ class JubileeBrowser {
     app.on('before-quit', async () => {
       // Clean up update manager
       this.updateManager.destroy();
+      this.blocklistUpdater.stop();
+      this.tabHibernator.stop();
 
       // Flush session state
       this.sessionStateManager.flushState();
+      this.inspireCache.flush();
+      this.blockLogStore.flush();
 
       // Save other managers
       await this.historyManager.save();
@@ -187,6 +276,50 @@ class JubileeBrowser {
     });
   }
 
+  private configureInspireDns(): void {
+    // Local replica first (answers synchronously), then the HTTP resolver if configured.
+    // Locations built into InspireResolver remain the fallback.
+    const config = DEFAULT_INSPIRE_DNS_CONFIG;
+    this.inspireResolver.setPublicHosts(config.publicHosts);
+    this.inspireResolver.addDnsSource(
+      new JsonReplicaDnsSource(path.join(app.getPath('userData'), config.replicaFile))
+    );
+    if (config.endpoint) {
+      this.inspireResolver.addDnsSource(new HttpDnsSource(config.endpoint, config.requestTimeout));
+    }
+
+    // Resolutions are cached per profile so lookups keep working offline
+    this.inspireCache = new InspireResolutionCache(
+      config.cacheFile,
+      config.cacheTtl,
+      config.cacheMaxStale,
+      config.cacheMaxEntries,
+      this.profileManager.getActiveProfileDataPath()
+    );
+    this.inspireResolver.setCache(this.inspireCache);
+
+    // Local .inspire bundles (app resources and the active profile)
+    new InspireBundleLoader(this.inspireResolver, this.profileManager.getActiveProfileDataPath()).loadAll();
+
+    // Steward-signed registrations: re-verified against the trusted keys on every start
+    this.inspireResolver.setTrustedKeys(new InspireTrustedKeys(config.trustedKeysFile));
+    this.inspireRegistrationStore = new InspireRegistrationStore(
+      config.registrationsFile,
+      this.profileManager.getActiveProfileDataPath()
+    );
+    // Oldest first, so the newest request for an address is the one left in place
+    const accepted: Map<string, InspireRegistrationRequest> = new Map();
+    for (const request of this.inspireRegistrationStore.getAll()) {
+      const result = this.inspireResolver.registerSignedLocation(request, { skipFreshnessCheck: true });
+      if (result.success && result.address) {
+        accepted.set(result.address, request);
+      } else {
+        console.warn(`[InspireRegistrations] Dropping stored registration for ${request.payload.address}: ${result.error}`);
+      }
+    }
+    this.inspireRegistrationStore.retain(accepted);
+  }
+
   private configureSecurityPolicy(): void {
     // Prevent new windows from being created via window.open
     app.on('web-contents-created', (_, contents) => {
@@ -201,7 +334,7 @@ class JubileeBrowser {
       // Prevent navigation to unexpected protocols
       contents.on('will-navigate', (event, navigationUrl) => {
         const parsedUrl = new URL(navigationUrl);
-        const allowedProtocols = ['http:', 'https:', 'inspire:', 'jubilee:', 'file:'];
+        const allowedProtocols = getNavigationProtocols(this.inspireResolver.getProtocolSchemes());
 
         if (!allowedProtocols.includes(parsedUrl.protocol)) {
           event.preventDefault();
@@ -229,30 +362,23 @@ class JubileeBrowser {
       callback(allowedPermissions.includes(permission));
     });
 
-    // Register custom protocol handler for inspire:// (JubileeBibles only)
-    jubileebiblesSession.protocol.registerStringProtocol('inspire', (request, callback) => {
-      const resolution = this.inspireResolver.resolveSync(request.url);
-      if (resolution.success && resolution.content) {
-        callback({
-          mimeType: 'text/html',
-          data: resolution.content,
-        });
-      } else {
-        callback({
-          mimeType: 'text/html',
-          data: this.inspireResolver.getErrorPage(resolution.errorMessage || 'Unknown error'),
-        });
-      }
-    });
+    // Cookie policy and DNT / Sec-GPC headers (both sessions)
+    this.trackingProtection.attachToSession(internetSession);
+    this.trackingProtection.attachToSession(jubileebiblesSession);
+
+    // Register custom protocol handlers for every web space type (JubileeBibles only)
+    // inspire://, church://, apostle://, ... and their abbreviations (insp://, apos://, ...)
+    for (const scheme of this.inspireResolver.getProtocolSchemes()) {
+      jubileebiblesSession.protocol.registerStreamProtocol(scheme, this.inspireProtocolHandler.handle);
+    }
 
     // Register jubilee:// protocol for internal browser pages (both sessions)
     // This enables jubilee://settings and other internal pages
     const registerJubileeProtocol = (ses: Electron.Session) => {
       ses.protocol.registerStringProtocol('jubilee', (request, callback) => {
-        const content = this.internalPageHandler.handle(request.url);
-        callback({
-          mimeType: 'text/html',
-          data: content,
+        this.internalPageHandler.handle(request.url).then(callback, (error) => {
+          console.error('Failed to render internal page:', error);
+          callback({ statusCode: 500 });
         });
       });
     };
@@ -14,6 +14,7 @@ export class ModeManager {
   private listeners: Set<ModeChangeListener> = new Set();
   private settingsManager: SettingsManager;
   private mainWindow: BrowserWindow | null = null;
+  private webSpaceSchemes: string[] = ['inspire'];
 
   constructor(settingsManager: SettingsManager) {
     this.settingsManager = settingsManager;
@@ -70,6 +71,11 @@ export class ModeManager {
     this.listeners.delete(listener);
   }
 
+  // Set the URL schemes served by the InspireResolver (inspire, church, apos, ...)
+  setWebSpaceSchemes(schemes: string[]): void {
+    this.webSpaceSchemes = schemes.map((scheme) => scheme.toLowerCase());
+  }
+
   // Get the session partition name for the current mode
   getSessionPartition(): string {
     return `persist:${this.currentMode}`;
@@ -80,9 +86,10 @@ export class ModeManager {
     const targetMode = mode ?? this.currentMode;
 
     if (targetMode === 'jubileebibles') {
-      // In JubileeBibles mode, only inspire:// URLs and internal resources
+      // In JubileeBibles mode, only web space URLs and internal resources
+      const lowerUrl = url.toLowerCase();
       return (
-        url.startsWith('inspire://') ||
+        this.webSpaceSchemes.some((scheme) => lowerUrl.startsWith(`${scheme}://`)) ||
         url.startsWith('about:') ||
         url.startsWith('file://') ||
         url.startsWith('data:')
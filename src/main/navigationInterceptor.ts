@@ -8,6 +8,8 @@ import { ModeManager } from './modeManager';
 import { InspireResolver } from './inspireResolver';
 import { HistoryManager } from './historyManager';
 import { BlacklistManager } from './blacklistManager';
+import { TrackingProtection } from './trackingProtection';
+import { InspireAccessControl } from './inspireAccessControl';
 import { BrowserMode } from '../shared/types';
 
 export class NavigationInterceptor {
@@ -15,6 +17,8 @@ export class NavigationInterceptor {
   private inspireResolver: InspireResolver;
   private historyManager: HistoryManager;
   private blacklistManager: BlacklistManager;
+  private trackingProtection: TrackingProtection | null = null;
+  private inspireAccessControl: InspireAccessControl | null = null;
   private mainWindow: BrowserWindow | null = null;
 
   constructor(
@@ -29,6 +33,20 @@ export class NavigationInterceptor {
     this.blacklistManager = blacklistManager;
   }
 
+  /**
+   * Set the tracker blocker applied to page subresources (injected after construction)
+   */
+  setTrackingProtection(trackingProtection: TrackingProtection): void {
+    this.trackingProtection = trackingProtection;
+  }
+
+  /**
+   * Set the web space access gate, told which tab each page request comes from (injected after construction)
+   */
+  setInspireAccessControl(inspireAccessControl: InspireAccessControl): void {
+    this.inspireAccessControl = inspireAccessControl;
+  }
+
   initialize(mainWindow: BrowserWindow): void {
     this.mainWindow = mainWindow;
     this.setupInterceptors();
@@ -45,10 +63,17 @@ export class NavigationInterceptor {
 
     // Intercept before requests are made
     ses.webRequest.onBeforeRequest((details, callback) => {
-      const { url, resourceType } = details;
+      const { url, resourceType, webContentsId } = details;
+      // The tab's top-level page is the first party for subresource requests
+      const firstPartyUrl = resourceType === 'mainFrame' ? url : details.webContents?.getURL() || undefined;
       const currentMode = this.modeManager.getCurrentMode();
       const isJubileebiblesSession = partition === 'persist:jubileebibles';
 
+      // A new page in the tab starts its tracker counts over
+      if (resourceType === 'mainFrame' && webContentsId !== undefined) {
+        this.trackingProtection?.resetTab(webContentsId);
+      }
+
       // Always allow internal resources
       if (this.isInternalResource(url)) {
         callback({ cancel: false });
@@ -56,7 +81,10 @@ export class NavigationInterceptor {
       }
 
       // Check blacklist for main frame requests (pages)
-      if (resourceType === 'mainFrame' && this.blacklistManager.isBlocked(url)) {
+      const blockEvent = resourceType === 'mainFrame'
+        ? this.blacklistManager.check(url, { browserMode: currentMode, webContentsId, resourceType, firstPartyUrl })
+        : null;
+      if (blockEvent) {
         console.log(`Blocked by blacklist: ${url}`);
         // Cancel the request - the renderer will show the blocked page
         callback({ cancel: true });
@@ -64,7 +92,8 @@ export class NavigationInterceptor {
         if (this.mainWindow && !this.mainWindow.isDestroyed()) {
           this.mainWindow.webContents.send('url-blocked', {
             url: url,
-            content: this.blacklistManager.getBlockedPageContent(url),
+            categories: blockEvent.sourceCategories || [],
+            content: this.blacklistManager.getBlockedPageContent(url, blockEvent, webContentsId),
           });
         }
         return;
@@ -74,6 +103,9 @@ export class NavigationInterceptor {
       if (isJubileebiblesSession) {
         // In JubileeBibles session, only allow inspire:// and essential resources
         if (this.isInspireUrl(url)) {
+          if (resourceType === 'mainFrame' && webContentsId !== undefined) {
+            this.inspireAccessControl?.noteNavigation(url, webContentsId);
+          }
           callback({ cancel: false });
         } else if (this.isAllowedInJubileebibles(url, resourceType)) {
           callback({ cancel: false });
@@ -89,8 +121,17 @@ export class NavigationInterceptor {
           callback({ cancel: true });
         } else {
           // Check blacklist for all resource types (to prevent loading from blocked domains)
-          if (this.blacklistManager.isBlocked(url)) {
-            console.log(`Blocked resource by blacklist: ${url}`);
+          const resourceBlock = this.blacklistManager.check(url, { webContentsId, resourceType, firstPartyUrl });
+          if (resourceBlock) {
+            // Strict-mode network filters count towards the tab's blocked trackers (not logged)
+            if (resourceBlock.matchType === 'filter') {
+              this.trackingProtection?.recordTracker(details, resourceBlock.domain);
+            } else {
+              console.log(`Blocked resource by blacklist: ${url}`);
+            }
+            callback({ cancel: true });
+          } else if (this.trackingProtection?.shouldBlock(details, firstPartyUrl)) {
+            console.log(`Blocked tracker: ${url}`);
             callback({ cancel: true });
           } else {
             callback({ cancel: false });
@@ -120,7 +161,7 @@ export class NavigationInterceptor {
   }
 
   private isInspireUrl(url: string): boolean {
-    return url.startsWith('inspire://') || url.includes('.inspire');
+    return this.inspireResolver.isInspireUrl(url);
   }
 
   private isAllowedInJubileebibles(url: string, resourceType: string): boolean {
@@ -148,101 +189,4 @@ export class NavigationInterceptor {
 
     return false;
   }
-
-  // Process a URL and determine how to handle it
-  processNavigation(url: string): {
-    shouldNavigate: boolean;
-    processedUrl: string;
-    mode: BrowserMode;
-    error?: string;
-  } {
-    const currentMode = this.modeManager.getCurrentMode();
-
-    // Normalize the URL
-    const normalizedUrl = this.normalizeUrl(url, currentMode);
-
-    // Allow jubilee:// URLs in any mode (internal browser pages)
-    if (normalizedUrl.startsWith('jubilee://')) {
-      return {
-        shouldNavigate: true,
-        processedUrl: normalizedUrl,
-        mode: currentMode,
-      };
-    }
-
-    if (currentMode === 'jubileebibles') {
-      // In JubileeBibles mode, handle .inspire URLs
-      if (this.isInspireUrl(normalizedUrl)) {
-        const resolution = this.inspireResolver.resolveSync(normalizedUrl);
-        if (resolution.success) {
-          return {
-            shouldNavigate: true,
-            processedUrl: normalizedUrl,
-            mode: 'jubileebibles',
-          };
-        } else {
-          return {
-            shouldNavigate: false,
-            processedUrl: normalizedUrl,
-            mode: 'jubileebibles',
-            error: resolution.errorMessage,
-          };
-        }
-      } else {
-        // Non-inspire URL in JubileeBibles mode
-        return {
-          shouldNavigate: false,
-          processedUrl: url,
-          mode: 'jubileebibles',
-          error: 'Only .inspire locations are accessible in JubileeBibles Mode',
-        };
-      }
-    } else {
-      // Internet mode - standard navigation
-      if (this.isInspireUrl(normalizedUrl)) {
-        return {
-          shouldNavigate: false,
-          processedUrl: url,
-          mode: 'internet',
-          error: 'Switch to JubileeBibles Mode to visit .inspire locations',
-        };
-      }
-
-      return {
-        shouldNavigate: true,
-        processedUrl: normalizedUrl,
-        mode: 'internet',
-      };
-    }
-  }
-
-  private normalizeUrl(url: string, mode: BrowserMode): string {
-    const trimmed = url.trim();
-
-    // Handle inspire:// and .inspire
-    if (mode === 'jubileebibles') {
-      if (trimmed.endsWith('.inspire') && !trimmed.includes('://')) {
-        return `inspire://${trimmed}`;
-      }
-      if (trimmed.startsWith('inspire://')) {
-        return trimmed;
-      }
-      // Assume it's a shorthand inspire address
-      if (!trimmed.includes('.') && !trimmed.includes('://')) {
-        return `inspire://${trimmed}.inspire`;
-      }
-    }
-
-    // Handle regular URLs
-    if (!trimmed.includes('://')) {
-      // Check if it looks like a domain
-      if (trimmed.includes('.') && !trimmed.includes(' ')) {
-        return `https://${trimmed}`;
-      }
-      // Treat as search query (for future implementation)
-      return `https://www.google.com/search?q=${encodeURIComponent(trimmed)}`;
-    }
-
-    return trimmed;
-  }
 }
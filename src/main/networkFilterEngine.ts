@@ -0,0 +1,330 @@
+/**
+ * Network Filter Engine
+ * Evaluates Adblock Plus / uBlock Origin network filters (EasyList, EasyPrivacy)
+ *
+ * Supported syntax:
+ * - `||example.com^`   domain anchor (example.com and its subdomains)
+ * - `|https://`, `.js|` start / end anchors
+ * - `*` wildcard, `^` separator
+ * - `@@...`            exception (allow) filters, `@@||site^$document` allows a whole page
+ * - Options: `$third-party` / `$~third-party` (also `3p` / `1p`), resource types
+ *   (`script`, `image`, `stylesheet`, `xmlhttprequest`, `subdocument`, `font`,
+ *   `media`, `object`, `websocket`, `ping`, `other`, `document`, and `~type`),
+ *   `domain=a.com|~b.com`, `match-case` (ignored)
+ *
+ * Filters with other options (`$popup`, `$csp=`, `$redirect=`, ...), regular
+ * expression filters and cosmetic filters (`##`) are not supported and are skipped.
+ *
+ * Filters are indexed by anchored domain or by their longest literal token, so a
+ * request only tests the handful of filters that could possibly match it.
+ * Kept free of Electron imports so it can be loaded by scripts.
+ */
+
+import { getBaseDomain } from './publicSuffix';
+
+export interface NetworkFilter {
+  raw: string;
+  exception: boolean;
+  regex: RegExp;
+  anchorDomain?: string;              // Set for `||domain^` filters
+  thirdParty?: boolean;               // true = third-party only, false = first-party only
+  resourceTypes?: Set<string>;        // Only these types (ABP names)
+  excludedResourceTypes?: Set<string>;
+  includeDomains?: string[];          // $domain= (first-party hostname)
+  excludeDomains?: string[];
+  categories: string[];
+}
+
+export interface NetworkRequest {
+  url: string;
+  resourceType: string;               // Electron webRequest resourceType, e.g. "script", "mainFrame"
+  firstPartyUrl?: string;             // URL of the page that made the request
+}
+
+const RESOURCE_TYPES = [
+  'script', 'image', 'stylesheet', 'object', 'xmlhttprequest', 'subdocument',
+  'font', 'media', 'websocket', 'ping', 'other', 'document',
+];
+
+// Electron resourceType -> ABP resource type
+const ELECTRON_RESOURCE_TYPES: Record<string, string> = {
+  mainFrame: 'document',
+  subFrame: 'subdocument',
+  stylesheet: 'stylesheet',
+  script: 'script',
+  image: 'image',
+  font: 'font',
+  object: 'object',
+  xhr: 'xmlhttprequest',
+  ping: 'ping',
+  cspReport: 'other',
+  media: 'media',
+  webSocket: 'websocket',
+  other: 'other',
+};
+
+const IGNORED_OPTIONS = ['match-case'];
+const TOKEN_PATTERN = /[a-z0-9%]{2,}/g;
+
+/**
+ * Parse one filter line; returns null for comments, cosmetic and unsupported filters
+ */
+export function parseNetworkFilter(line: string, categories: string[] = []): NetworkFilter | null {
+  let text = line.trim();
+  if (!text || text.startsWith('!') || text.startsWith('[')) return null;
+  if (/#[@?$%]?#|#\+js\(/.test(text)) return null;    // Cosmetic / scriptlet filters
+
+  const exception = text.startsWith('@@');
+  if (exception) text = text.slice(2);
+
+  const filter: NetworkFilter = { raw: line.trim(), exception, regex: /$^/, categories };
+
+  // Options
+  const optionsIndex = text.lastIndexOf('$');
+  if (optionsIndex > 0 && !text.slice(optionsIndex).includes('/')) {
+    const options = text.slice(optionsIndex + 1).toLowerCase().split(',');
+    text = text.slice(0, optionsIndex);
+    if (!applyOptions(filter, options)) return null;
+  }
+
+  if (!text || text === '*' || text === '|' || text === '||') return null;
+  if (text.length > 2 && text.startsWith('/') && text.endsWith('/')) return null;  // Regex filters
+  text = text.toLowerCase();
+
+  if (text.startsWith('||')) {
+    const host = text.slice(2).match(/^[a-z0-9.-]+/);
+    if (host && /^[\^/:]|^$|^\|$/.test(text.slice(2 + host[0].length))) {
+      filter.anchorDomain = host[0].replace(/\.$/, '');
+    }
+  }
+
+  filter.regex = toRegex(text);
+  return filter;
+}
+
+function applyOptions(filter: NetworkFilter, options: string[]): boolean {
+  for (const option of options) {
+    const negated = option.startsWith('~');
+    const name = negated ? option.slice(1) : option;
+
+    if (name === 'third-party' || name === '3p') {
+      filter.thirdParty = !negated;
+    } else if (name === 'first-party' || name === '1p') {
+      filter.thirdParty = negated;
+    } else if (name === 'xhr' || RESOURCE_TYPES.includes(name)) {
+      const type = name === 'xhr' ? 'xmlhttprequest' : name;
+      const set = negated
+        ? (filter.excludedResourceTypes ??= new Set())
+        : (filter.resourceTypes ??= new Set());
+      set.add(type);
+    } else if (option.startsWith('domain=')) {
+      for (const domain of option.slice(7).split('|')) {
+        if (domain.startsWith('~')) {
+          (filter.excludeDomains ??= []).push(domain.slice(1));
+        } else if (domain) {
+          (filter.includeDomains ??= []).push(domain);
+        }
+      }
+    } else if (!IGNORED_OPTIONS.includes(name)) {
+      return false;   // Unsupported option: skip the whole filter rather than over-block
+    }
+  }
+  return true;
+}
+
+/**
+ * Convert ABP pattern syntax to a regular expression
+ */
+function toRegex(pattern: string): RegExp {
+  let source = pattern;
+  let prefix = '';
+  let suffix = '';
+
+  if (source.startsWith('||')) {
+    prefix = '^[a-z][a-z0-9+.-]*:\\/\\/(?:[^/?#]*\\.)?';
+    source = source.slice(2);
+  } else if (source.startsWith('|')) {
+    prefix = '^';
+    source = source.slice(1);
+  }
+  if (source.endsWith('|')) {
+    suffix = '$';
+    source = source.slice(0, -1);
+  }
+
+  const body = source
+    .replace(/[.+?${}()[\]\\/|]/g, '\\$&')
+    .replace(/\*+/g, '.*')
+    // A trailing separator also matches the end of the URL
+    .replace(/\^/g, (_, offset: number, text: string) =>
+      offset === text.length - 1 ? '(?:[^a-z0-9_.%-]|$)' : '[^a-z0-9_.%-]');
+
+  return new RegExp(prefix + body + suffix);
+}
+
+function matchesDomainList(hostname: string, domains: string[]): boolean {
+  return domains.some((domain) => hostname === domain || hostname.endsWith('.' + domain));
+}
+
+/**
+ * Index of filters keyed by anchored domain or literal token
+ */
+class FilterIndex {
+  private byDomain: Map<string, NetworkFilter[]> = new Map();
+  private byToken: Map<string, NetworkFilter[]> = new Map();
+  private generic: NetworkFilter[] = [];
+  size: number = 0;
+
+  add(filter: NetworkFilter, pattern: string): void {
+    this.size++;
+    if (filter.anchorDomain) {
+      this.push(this.byDomain, filter.anchorDomain, filter);
+      return;
+    }
+
+    const token = this.pickToken(pattern);
+    if (token) {
+      this.push(this.byToken, token, filter);
+    } else {
+      this.generic.push(filter);
+    }
+  }
+
+  /**
+   * Find the first filter matching the request
+   */
+  find(url: string, hostname: string, test: (filter: NetworkFilter) => boolean): NetworkFilter | null {
+    // Domain-anchored filters: check the hostname and each parent domain
+    let domain = hostname;
+    while (domain) {
+      const match = this.byDomain.get(domain)?.find(test);
+      if (match) return match;
+      const dot = domain.indexOf('.');
+      domain = dot >= 0 ? domain.slice(dot + 1) : '';
+    }
+
+    if (this.byToken.size > 0) {
+      const seen = new Set<string>();
+      for (const token of url.match(TOKEN_PATTERN) || []) {
+        if (seen.has(token)) continue;
+        seen.add(token);
+        const match = this.byToken.get(token)?.find(test);
+        if (match) return match;
+      }
+    }
+
+    return this.generic.find(test) || null;
+  }
+
+  private push(map: Map<string, NetworkFilter[]>, key: string, filter: NetworkFilter): void {
+    const bucket = map.get(key);
+    if (bucket) {
+      bucket.push(filter);
+    } else {
+      map.set(key, [filter]);
+    }
+  }
+
+  /**
+   * Longest token that must appear whole in any matching URL
+   */
+  private pickToken(pattern: string): string | null {
+    const body = pattern.replace(/\$.*$/, '').replace(/^@@/, '').toLowerCase();
+    let best: string | null = null;
+
+    for (const match of body.matchAll(TOKEN_PATTERN)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const before = body[start - 1];
+      const after = body[end];
+
+      // A token touching a wildcard or an unanchored pattern edge may be partial in the URL
+      const safeStart = before !== undefined ? before !== '*' : false;
+      const safeEnd = after !== undefined ? after !== '*' : false;
+      if (!safeStart || !safeEnd) continue;
+
+      if (!best || match[0].length > best.length) best = match[0];
+    }
+    return best;
+  }
+}
+
+export interface NetworkFilterMatch {
+  filter: NetworkFilter;
+}
+
+export class NetworkFilterEngine {
+  private filters: FilterIndex = new FilterIndex();
+  private exceptions: FilterIndex = new FilterIndex();
+  private documentExceptions: FilterIndex = new FilterIndex();
+
+  get size(): number {
+    return this.filters.size + this.exceptions.size + this.documentExceptions.size;
+  }
+
+  /**
+   * Add one filter line; returns false if it was skipped
+   */
+  add(line: string, categories: string[] = []): boolean {
+    const filter = parseNetworkFilter(line, categories);
+    if (!filter) return false;
+
+    const pattern = line.trim();
+    if (!filter.exception) {
+      this.filters.add(filter, pattern);
+    } else if (filter.resourceTypes?.has('document')) {
+      this.documentExceptions.add(filter, pattern);
+    } else {
+      this.exceptions.add(filter, pattern);
+    }
+    return true;
+  }
+
+  /**
+   * Find the blocking filter for a request, or null if it is allowed.
+   * isCategoryEnabled lets callers skip filters whose categories are switched off.
+   */
+  match(request: NetworkRequest, isCategoryEnabled?: (categories: string[]) => boolean): NetworkFilterMatch | null {
+    const url = request.url.toLowerCase();
+    let hostname: string;
+    let firstPartyHostname: string;
+    try {
+      hostname = new URL(url).hostname;
+      firstPartyHostname = request.firstPartyUrl ? new URL(request.firstPartyUrl).hostname.toLowerCase() : hostname;
+    } catch {
+      return null;
+    }
+
+    const resourceType = ELECTRON_RESOURCE_TYPES[request.resourceType] || 'other';
+    const isThirdParty = getBaseDomain(hostname) !== getBaseDomain(firstPartyHostname);
+
+    const test = (filter: NetworkFilter): boolean => {
+      if (filter.thirdParty !== undefined && filter.thirdParty !== isThirdParty) return false;
+      if (filter.resourceTypes) {
+        if (!filter.resourceTypes.has(resourceType)) return false;
+      } else if (resourceType === 'document' && !filter.exception) {
+        // Like ABP, filters without type options never block top-level pages
+        return false;
+      }
+      if (filter.excludedResourceTypes?.has(resourceType)) return false;
+      if (filter.includeDomains && !matchesDomainList(firstPartyHostname, filter.includeDomains)) return false;
+      if (filter.excludeDomains && matchesDomainList(firstPartyHostname, filter.excludeDomains)) return false;
+      if (!filter.exception && isCategoryEnabled && !isCategoryEnabled(filter.categories)) return false;
+      return filter.regex.test(url);
+    };
+
+    const blocking = this.filters.find(url, hostname, test);
+    if (!blocking) return null;
+
+    if (this.exceptions.find(url, hostname, test)) return null;
+
+    // @@||site^$document allows every request made by that page
+    if (this.documentExceptions.size > 0) {
+      const pageUrl = (request.firstPartyUrl || request.url).toLowerCase();
+      const pageTest = (filter: NetworkFilter): boolean => filter.regex.test(pageUrl);
+      if (this.documentExceptions.find(pageUrl, firstPartyHostname, pageTest)) return null;
+    }
+
+    return { filter: blocking };
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Omnibox Suggestion Provider
+ * Suggests history, bookmarks, open tabs and inspire locations for address bar input
+ *
+ * Candidates are limited to the current mode and ranked by frecency × match quality:
+ * - Frecency: each history visit is weighted by age (recent visits count more), the
+ *   newest visits are sampled and scaled up to the page's total visit count.
+ *   Bookmarks, open tabs and inspire locations get a fixed bonus on top.
+ * - Match quality: every word of the input must appear in the URL or title. Input
+ *   matching the start of the address ranks highest, then the start of a word.
+ *
+ * In Internet mode the first suggestion is always what the input itself resolves to
+ * (a search on the default engine, a keyword search, or the typed address).
+ */
+
+import { HistoryManager } from './historyManager';
+import { BookmarkManager } from './bookmarkManager';
+import { TabManager } from './tabManager';
+import { InspireResolver } from './inspireResolver';
+import { SettingsManager } from './settingsManager';
+import { SearchEngineManager } from './searchEngineManager';
+import { BrowserMode, OmniboxSuggestion } from '../shared/types';
+
+const MAX_SUGGESTIONS = 8;
+const SAMPLED_VISITS = 10;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Visit weight by age
+const VISIT_WEIGHTS: Array<{ maxAge: number; weight: number }> = [
+  { maxAge: 4 * DAY, weight: 100 },
+  { maxAge: 14 * DAY, weight: 70 },
+  { maxAge: 31 * DAY, weight: 50 },
+  { maxAge: 90 * DAY, weight: 30 },
+];
+const OLD_VISIT_WEIGHT = 10;
+
+const TAB_BONUS = 200;
+const BOOKMARK_BONUS = 150;
+const INSPIRE_BONUS = 100;
+
+interface PageVisits {
+  url: string;
+  title: string;
+  favicon?: string;
+  frecency: number;
+}
+
+export class OmniboxSuggestionProvider {
+  private historyManager: HistoryManager;
+  private bookmarkManager: BookmarkManager;
+  private tabManager: TabManager;
+  private inspireResolver: InspireResolver;
+  private settingsManager: SettingsManager;
+  private searchEngineManager: SearchEngineManager;
+
+  constructor(
+    historyManager: HistoryManager,
+    bookmarkManager: BookmarkManager,
+    tabManager: TabManager,
+    inspireResolver: InspireResolver,
+    settingsManager: SettingsManager,
+    searchEngineManager: SearchEngineManager
+  ) {
+    this.historyManager = historyManager;
+    this.bookmarkManager = bookmarkManager;
+    this.tabManager = tabManager;
+    this.inspireResolver = inspireResolver;
+    this.settingsManager = settingsManager;
+    this.searchEngineManager = searchEngineManager;
+  }
+
+  getSuggestions(input: string, mode: BrowserMode, limit: number = MAX_SUGGESTIONS): OmniboxSuggestion[] {
+    const query = input.trim().toLowerCase();
+    if (!query || !this.settingsManager.getSetting('search').suggestionsEnabled) {
+      return [];
+    }
+
+    const words = query.split(/\s+/);
+    const visits = this.getVisits(mode);
+    const frecency = (url: string) => visits.get(this.getUrlKey(url))?.frecency || 0;
+    const candidates: Map<string, OmniboxSuggestion> = new Map(); // key: normalized URL
+
+    const add = (suggestion: Omit<OmniboxSuggestion, 'score'>, baseScore: number) => {
+      const quality = this.getMatchQuality(words, suggestion.url, suggestion.title);
+      if (quality === 0) return;
+
+      const key = this.getUrlKey(suggestion.url);
+      const score = baseScore * quality;
+      const existing = candidates.get(key);
+      if (!existing || existing.score < score) {
+        candidates.set(key, { ...suggestion, score });
+      }
+    };
+
+    for (const page of visits.values()) {
+      add({ type: 'history', url: page.url, title: page.title, favicon: page.favicon }, page.frecency);
+    }
+
+    for (const bookmark of this.bookmarkManager.getBookmarks(mode)) {
+      add(
+        { type: 'bookmark', url: bookmark.url, title: bookmark.title, favicon: bookmark.favicon },
+        BOOKMARK_BONUS + frecency(bookmark.url)
+      );
+    }
+
+    for (const tab of this.tabManager.getTabList()) {
+      if (tab.mode !== mode || tab.isActive || !tab.url || tab.url === 'about:blank') continue;
+      add(
+        { type: 'tab', url: tab.url, title: tab.title, favicon: tab.favicon, tabId: tab.id },
+        TAB_BONUS + frecency(tab.url)
+      );
+    }
+
+    if (mode === 'jubileebibles') {
+      for (const location of this.inspireResolver.getLocations()) {
+        const type = location.publicAddress.substring(location.publicAddress.lastIndexOf('.') + 1);
+        const url = `${type}://${location.publicAddress}`;
+        add({ type: 'inspire', url, title: location.metadata.name }, INSPIRE_BONUS + frecency(url));
+      }
+    }
+
+    const typed = mode === 'internet' ? this.getTypedSuggestion(input) : null;
+    const ranked = Array.from(candidates.values())
+      .filter((suggestion) => !typed || this.getUrlKey(suggestion.url) !== this.getUrlKey(typed.url))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, typed ? limit - 1 : limit);
+
+    return typed ? [typed, ...ranked] : ranked;
+  }
+
+  /**
+   * What pressing Enter on the input would do
+   */
+  private getTypedSuggestion(input: string): OmniboxSuggestion {
+    const resolution = this.searchEngineManager.resolveInput(input);
+    if (!resolution.isSearch) {
+      return { type: 'url', url: resolution.url, title: resolution.url, score: 0 };
+    }
+
+    const engine = this.searchEngineManager.getEngines().find((candidate) => candidate.id === resolution.engineId);
+    return {
+      type: 'search',
+      url: resolution.url,
+      title: `Search ${engine?.name || 'the web'} for "${input.trim()}"`,
+      score: 0,
+    };
+  }
+
+  /**
+   * Visited pages in a mode with their frecency
+   */
+  private getVisits(mode: BrowserMode): Map<string, PageVisits> {
+    const now = Date.now();
+    const pages: Map<string, PageVisits & { visitCount: number; sampled: number; sampledWeight: number }> = new Map();
+
+    // History is newest first, so the first visit seen is the latest title and favicon
+    for (const entry of this.historyManager.getHistory(mode, Infinity)) {
+      const key = this.getUrlKey(entry.url);
+      let page = pages.get(key);
+      if (!page) {
+        page = { url: entry.url, title: entry.title, favicon: entry.favicon, frecency: 0, visitCount: 0, sampled: 0, sampledWeight: 0 };
+        pages.set(key, page);
+      }
+
+      page.visitCount++;
+      if (page.sampled < SAMPLED_VISITS) {
+        const age = now - entry.timestamp;
+        page.sampled++;
+        page.sampledWeight += VISIT_WEIGHTS.find((bucket) => age <= bucket.maxAge)?.weight ?? OLD_VISIT_WEIGHT;
+      }
+    }
+
+    const visits: Map<string, PageVisits> = new Map();
+    for (const [key, page] of pages) {
+      visits.set(key, {
+        url: page.url,
+        title: page.title,
+        favicon: page.favicon,
+        frecency: (page.sampledWeight / page.sampled) * page.visitCount,
+      });
+    }
+    return visits;
+  }
+
+  /**
+   * 0 = no match, 1 = substring, 2 = start of a word, 4 = start of the address
+   */
+  private getMatchQuality(words: string[], url: string, title: string): number {
+    const address = url.toLowerCase().replace(/^[a-z][a-z0-9+.-]*:\/\//, '').replace(/^www\./, '');
+    const lowerTitle = (title || '').toLowerCase();
+
+    if (!words.every((word) => address.includes(word) || lowerTitle.includes(word))) {
+      return 0;
+    }
+
+    const first = words[0];
+    if (address.startsWith(first)) return 4;
+
+    const wordStart = new RegExp(`(^|[^a-z0-9])${first.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`);
+    return wordStart.test(address) || wordStart.test(lowerTitle) ? 2 : 1;
+  }
+
+  private getUrlKey(url: string): string {
+    return url.toLowerCase().replace(/#.*$/, '').replace(/\/+$/, '');
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Public Suffix
+ * Site boundaries from the Public Suffix List (bundled with the tldts package)
+ *
+ * A site is a registrable domain: one label below a public suffix such as com,
+ * co.uk or github.io. Hosts of the same site are first-party to each other.
+ * The address bar (urlFixup.ts) uses the same list to recognize top-level domains.
+ */
+
+import { parse } from 'tldts';
+
+// Inputs are already hostnames; private suffixes (github.io, blogspot.com) separate sites too
+const HOSTNAME_OPTIONS = { extractHostname: false, allowPrivateDomains: true };
+
+// Typed addresses only consult the ICANN section: github.io is a site you can visit
+const ICANN_OPTIONS = { extractHostname: false, allowPrivateDomains: false };
+
+/**
+ * Registrable domain of a hostname (a.b.example.co.uk -> example.co.uk, me.github.io -> me.github.io)
+ * Hosts without one (IP addresses, localhost, bare suffixes) are returned unchanged.
+ */
+export function getBaseDomain(hostname: string): string {
+  return parse(hostname, HOSTNAME_OPTIONS).domain ?? hostname;
+}
+
+/**
+ * Whether a host is itself a public suffix (com, co.uk) rather than a site
+ */
+export function isPublicSuffix(host: string): boolean {
+  const lowerHost = host.toLowerCase().replace(/\.$/, '');
+  const { publicSuffix, isIcann } = parse(lowerHost, ICANN_OPTIONS);
+  return isIcann === true && publicSuffix === lowerHost;
+}
+
+/**
+ * Whether a top-level domain is delegated (com, uk, church, xn--p1ai)
+ */
+export function isKnownTopLevelDomain(tld: string): boolean {
+  return parse(tld.toLowerCase(), ICANN_OPTIONS).isIcann === true;
+}
@@ -0,0 +1,171 @@
+/**
+ * Search Engine Manager
+ * Resolves address bar input to a URL or a search on the configured engines
+ *
+ * - `<keyword> <terms>` searches the engine with that keyword (`ddg bible verse`)
+ * - Input that urlFixup recognizes as an address (URLs, hosts, IPs, file paths) is loaded
+ * - Anything else searches search.defaultEngine
+ *
+ * Engines come from BrowserSettings.search.engines; `{searchTerms}` in an engine's
+ * URL template is replaced with the encoded query. Users can add their own engines
+ * in Search settings. The Jubilee engine is used if the configured default is missing.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { SettingsManager } from './settingsManager';
+import { fixupUrl } from './urlFixup';
+import { DEFAULT_SETTINGS, OmniboxResolution, SearchEngine } from '../shared/types';
+
+const SEARCH_TERMS = '{searchTerms}';
+const FALLBACK_ENGINE_ID = 'jubilee';
+
+/**
+ * Fill a `{searchTerms}` URL template with a query
+ */
+export function expandSearchTemplate(urlTemplate: string, terms: string): string {
+  return urlTemplate.split(SEARCH_TERMS).join(encodeURIComponent(terms.trim()));
+}
+
+export class SearchEngineManager {
+  private settingsManager: SettingsManager;
+  private webSpaceSchemes: string[] = [];
+
+  constructor(settingsManager: SettingsManager) {
+    this.settingsManager = settingsManager;
+  }
+
+  // Set the URL schemes served by the InspireResolver (inspire, church, apos, ...)
+  setWebSpaceSchemes(schemes: string[]): void {
+    this.webSpaceSchemes = schemes.map((scheme) => scheme.toLowerCase());
+  }
+
+  /**
+   * Configured engines; built-in engines saved before keywords existed get their default keyword
+   */
+  getEngines(): SearchEngine[] {
+    const search = this.settingsManager.getSetting('search');
+    const engines = search.engines?.length ? search.engines : DEFAULT_SETTINGS.search.engines;
+
+    return engines.map((engine) => ({
+      ...engine,
+      keyword: engine.keyword ?? DEFAULT_SETTINGS.search.engines.find((builtIn) => builtIn.id === engine.id)?.keyword,
+      isDefault: engine.id === search.defaultEngine,
+    }));
+  }
+
+  getDefaultEngine(): SearchEngine {
+    const engines = this.getEngines();
+    const defaultId = this.settingsManager.getSetting('search').defaultEngine;
+    return engines.find((engine) => engine.id === defaultId)
+      || engines.find((engine) => engine.id === FALLBACK_ENGINE_ID)
+      || DEFAULT_SETTINGS.search.engines.find((engine) => engine.id === FALLBACK_ENGINE_ID)!;
+  }
+
+  /**
+   * Turn address bar input into the URL to load
+   */
+  resolveInput(input: string): OmniboxResolution {
+    const trimmed = input.trim();
+
+    // Keyword shortcut: "ddg bible verse"
+    const keywordMatch = trimmed.match(/^(\S+)\s+(.+)$/);
+    if (keywordMatch) {
+      const keyword = keywordMatch[1].toLowerCase();
+      const engine = this.getEngines().find((candidate) => candidate.keyword?.toLowerCase() === keyword);
+      if (engine) {
+        return this.search(keywordMatch[2], engine);
+      }
+    }
+
+    const url = fixupUrl(trimmed, this.webSpaceSchemes);
+    if (url) {
+      return { url, isSearch: false };
+    }
+
+    return this.search(trimmed, this.getDefaultEngine());
+  }
+
+  /**
+   * Add a user-defined engine from Search settings
+   */
+  addEngine(
+    name: string,
+    keyword: string,
+    urlTemplate: string
+  ): { success: boolean; engine?: SearchEngine; error?: string } {
+    const trimmedName = name.trim();
+    const trimmedKeyword = keyword.trim().toLowerCase();
+    const trimmedTemplate = urlTemplate.trim();
+
+    if (!trimmedName) {
+      return { success: false, error: 'Enter a name for the search engine' };
+    }
+    if (!this.isValidTemplate(trimmedTemplate)) {
+      return { success: false, error: `The URL must start with http:// or https:// and contain ${SEARCH_TERMS}` };
+    }
+    if (/\s/.test(trimmedKeyword)) {
+      return { success: false, error: 'Keywords cannot contain spaces' };
+    }
+
+    const engines = this.getEngines();
+    if (trimmedKeyword && engines.some((engine) => engine.keyword?.toLowerCase() === trimmedKeyword)) {
+      return { success: false, error: `The keyword "${trimmedKeyword}" is already used` };
+    }
+
+    const engine: SearchEngine = {
+      id: uuidv4(),
+      name: trimmedName,
+      urlTemplate: trimmedTemplate,
+      isDefault: false,
+      keyword: trimmedKeyword || undefined,
+      isCustom: true,
+    };
+
+    this.saveEngines([...engines, engine]);
+    return { success: true, engine };
+  }
+
+  /**
+   * Remove a user-defined engine; built-in engines cannot be removed
+   */
+  removeEngine(id: string): boolean {
+    const engines = this.getEngines();
+    const engine = engines.find((candidate) => candidate.id === id);
+    if (!engine?.isCustom) {
+      return false;
+    }
+
+    const search = this.settingsManager.getSetting('search');
+    this.settingsManager.setSetting('search', {
+      ...search,
+      engines: engines.filter((candidate) => candidate.id !== id),
+      defaultEngine: search.defaultEngine === id ? FALLBACK_ENGINE_ID : search.defaultEngine,
+    });
+    return true;
+  }
+
+  private search(terms: string, engine: SearchEngine): OmniboxResolution {
+    return {
+      url: expandSearchTemplate(engine.urlTemplate, terms),
+      isSearch: true,
+      engineId: engine.id,
+    };
+  }
+
+  private saveEngines(engines: SearchEngine[]): void {
+    this.settingsManager.setSetting('search', {
+      ...this.settingsManager.getSetting('search'),
+      engines,
+    });
+  }
+
+  private isValidTemplate(urlTemplate: string): boolean {
+    if (!urlTemplate.includes(SEARCH_TERMS)) return false;
+    try {
+      const url = new URL(expandSearchTemplate(urlTemplate, 'test'));
+      return url.protocol === 'https:' || url.protocol === 'http:';
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Tab Hibernator
+ * Unloads background tabs so a window with many tabs doesn't hold every page in memory
+ *
+ * Tabs that are not selected, not pinned and not playing audio are discarded
+ * (TabManager.discardTab) when:
+ * - they have not been selected for advanced.hibernateAfterMinutes, or
+ * - the tabs' page processes together use more than advanced.hibernateMemoryLimitMB;
+ *   the least recently selected tabs go first, until the estimate is under the limit.
+ *   The browser's own processes (main, GPU, utility) are not counted, since
+ *   discarding tabs cannot free them
+ *
+ * A discarded tab keeps its title, favicon and scroll position and reloads when
+ * selected. No tab is discarded within minBackgroundTime of being deselected.
+ */
+
+import { app } from 'electron';
+import { TabData, TabManager } from './tabManager';
+import { SettingsManager } from './settingsManager';
+import { DEFAULT_SETTINGS, DEFAULT_TAB_HIBERNATION_CONFIG, TabHibernationConfig } from '../shared/types';
+
+const MINUTE = 60 * 1000;
+const MB = 1024 * 1024;
+
+export class TabHibernator {
+  private tabManager: TabManager;
+  private settingsManager: SettingsManager;
+  private config: TabHibernationConfig;
+  private checkTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    tabManager: TabManager,
+    settingsManager: SettingsManager,
+    config: TabHibernationConfig = DEFAULT_TAB_HIBERNATION_CONFIG
+  ) {
+    this.tabManager = tabManager;
+    this.settingsManager = settingsManager;
+    this.config = config;
+  }
+
+  start(): void {
+    this.scheduleNextCheck();
+  }
+
+  stop(): void {
+    if (this.checkTimer) {
+      clearTimeout(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+
+  /**
+   * Discard the tabs that are due; returns the number discarded
+   */
+  async checkNow(): Promise<number> {
+    const advanced = this.settingsManager.getSetting('advanced');
+    if (!(advanced.hibernateTabs ?? DEFAULT_SETTINGS.advanced.hibernateTabs)) {
+      return 0;
+    }
+
+    const now = Date.now();
+    const idleTime = Math.max(
+      (Number(advanced.hibernateAfterMinutes) || DEFAULT_SETTINGS.advanced.hibernateAfterMinutes) * MINUTE,
+      this.config.minBackgroundTime
+    );
+    const memoryLimit = Number(advanced.hibernateMemoryLimitMB ?? DEFAULT_SETTINGS.advanced.hibernateMemoryLimitMB) * MB;
+
+    const candidates = this.tabManager.getHibernationCandidates()
+      .filter((tab) => now - tab.lastActiveAt >= this.config.minBackgroundTime);
+    let discarded = 0;
+
+    // Before the idle pass: processes of tabs discarded in this check would still show up in the metrics
+    if (memoryLimit > 0) {
+      discarded += await this.discardUntilUnder(memoryLimit, candidates);
+    }
+
+    for (const tab of candidates) {
+      if (!tab.isDiscarded && now - tab.lastActiveAt >= idleTime && await this.tabManager.discardTab(tab.id)) {
+        discarded++;
+      }
+    }
+
+    if (discarded > 0) {
+      console.log(`[TabHibernator] Discarded ${discarded} background tab(s)`);
+    }
+    return discarded;
+  }
+
+  /**
+   * Discard the least recently selected tabs until the estimated memory of tab processes is under the limit
+   * Tabs of the same site can share a process, so a process only counts as freed once no tab
+   * that stays loaded uses it; processes of the selected, pinned or playing tabs are never freed.
+   */
+  private async discardUntilUnder(memoryLimit: number, candidates: TabData[]): Promise<number> {
+    const tabProcesses = this.tabManager.getTabProcessIds();
+    const tabPids = new Set(tabProcesses.values());
+    const processMemory: Map<number, number> = new Map(
+      app.getAppMetrics()
+        .filter((metric) => tabPids.has(metric.pid))
+        .map((metric) => [metric.pid, metric.memory.workingSetSize * 1024])
+    );
+    let used = Array.from(processMemory.values()).reduce((total, size) => total + size, 0);
+    if (used <= memoryLimit) return 0;
+
+    // Tabs still using each process; a process is freed when its last one is discarded
+    const candidateIds = new Set(candidates.map((tab) => tab.id));
+    const keptPids: Set<number> = new Set();
+    const tabsByPid: Map<number, number> = new Map();
+    for (const [tabId, pid] of tabProcesses) {
+      if (!candidateIds.has(tabId)) keptPids.add(pid);
+      tabsByPid.set(pid, (tabsByPid.get(pid) || 0) + 1);
+    }
+
+    // Stop early if even discarding every candidate cannot get under the limit
+    const freeable = Array.from(processMemory)
+      .filter(([pid]) => !keptPids.has(pid))
+      .reduce((total, [, size]) => total + size, 0);
+    if (used - freeable > memoryLimit) return 0;
+
+    let discarded = 0;
+    for (const tab of candidates) {
+      if (used <= memoryLimit) break;
+
+      const pid = tabProcesses.get(tab.id);
+      if (pid === undefined || keptPids.has(pid)) continue;
+      if (!await this.tabManager.discardTab(tab.id)) continue;
+
+      discarded++;
+      const remaining = (tabsByPid.get(pid) || 1) - 1;
+      tabsByPid.set(pid, remaining);
+      if (remaining === 0) {
+        used -= processMemory.get(pid) || 0;
+      }
+    }
+    return discarded;
+  }
+
+  private scheduleNextCheck(): void {
+    this.stop();
+    this.checkTimer = setTimeout(async () => {
+      try {
+        await this.checkNow();
+      } catch (error) {
+        console.error('[TabHibernator] Check failed:', error);
+      }
+      this.scheduleNextCheck();
+    }, this.config.checkInterval);
+  }
+}
@@ -3,13 +3,13 @@
  * Manages browser tabs and their associated webviews
  */
 
-import { BrowserWindow, ipcMain, WebContents } from 'electron';
+import { BrowserWindow, ipcMain, WebContents, webContents } from 'electron';
 import { v4 as uuidv4 } from 'uuid';
-import { TabState, BrowserMode, IPC_CHANNELS, TabGroup, TabGroupColor, ExtendedTabState, ClosedTabEntry } from '../shared/types';
+import { TabState, BrowserMode, IPC_CHANNELS, TabGroup, TabGroupColor, ExtendedTabState, ClosedTabEntry, TabModeMove } from '../shared/types';
 import { ModeManager } from './modeManager';
 import { InspireResolver } from './inspireResolver';
 
-interface TabData {
+export interface TabData {
   id: string;
   webContentsId?: number;
   state: TabState;
@@ -17,6 +17,9 @@ interface TabData {
   isMuted: boolean;
   isAudible: boolean;
   groupId?: string;
+  lastActiveAt: number;      // When the tab was last selected (or deselected)
+  isDiscarded: boolean;      // Hibernated; the renderer has removed its webview
+  scrollPosition?: number;   // Saved on discard, restored once the reloaded page has loaded
 }
 
 export class TabManager {
@@ -67,6 +70,8 @@ export class TabManager {
       isPinned: false,
       isMuted: false,
       isAudible: false,
+      lastActiveAt: Date.now(),
+      isDiscarded: false,
     };
 
     this.tabs.set(id, tabData);
@@ -126,8 +131,20 @@ export class TabManager {
   switchTab(tabId: string): boolean {
     if (!this.tabs.has(tabId)) return false;
 
+    // The tab being left starts its idle time now
+    const now = Date.now();
+    const previousTab = this.activeTabId ? this.tabs.get(this.activeTabId) : undefined;
+    if (previousTab) {
+      previousTab.lastActiveAt = now;
+    }
+
     this.activeTabId = tabId;
     const tab = this.tabs.get(tabId);
+    if (tab) {
+      tab.lastActiveAt = now;
+      // The renderer reloads a discarded tab when it is selected
+      tab.isDiscarded = false;
+    }
 
     // Switch mode if tab is in different mode
     if (tab && tab.state.mode !== this.modeManager.getCurrentMode()) {
@@ -148,12 +165,106 @@ export class TabManager {
     this.sendToRenderer(IPC_CHANNELS.TAB_UPDATE, this.getTabList());
   }
 
+  /**
+   * Tab whose page is shown in a webContents (undefined for other windows and discarded tabs)
+   */
+  getTabIdForWebContents(webContentsId: number): string | undefined {
+    for (const tab of this.tabs.values()) {
+      if (tab.webContentsId === webContentsId) return tab.id;
+    }
+    return undefined;
+  }
+
   setTabWebContents(tabId: string, webContentsId: number): void {
     const tab = this.tabs.get(tabId);
     if (!tab) return;
 
     tab.webContentsId = webContentsId;
     this.tabs.set(tabId, tab);
+
+    if (tab.scrollPosition !== undefined && !tab.isDiscarded) {
+      this.restoreScrollPosition(tab, webContentsId);
+    }
+  }
+
+  /**
+   * Background tabs that may be hibernated, least recently selected first
+   */
+  getHibernationCandidates(): TabData[] {
+    return Array.from(this.tabs.values())
+      .filter((tab) => tab.id !== this.activeTabId && !tab.isPinned && !tab.isAudible && !tab.isDiscarded)
+      .sort((a, b) => a.lastActiveAt - b.lastActiveAt);
+  }
+
+  /**
+   * OS process of a tab's page (shared by tabs of the same site), for memory accounting
+   */
+  getTabProcessId(tabId: string): number | undefined {
+    const tab = this.tabs.get(tabId);
+    const contents = tab?.webContentsId !== undefined ? webContents.fromId(tab.webContentsId) : undefined;
+    return contents && !contents.isDestroyed() ? contents.getOSProcessId() : undefined;
+  }
+
+  /**
+   * OS processes of all tabs with a loaded page, by tab ID
+   */
+  getTabProcessIds(): Map<string, number> {
+    const processIds: Map<string, number> = new Map();
+    for (const tabId of this.tabs.keys()) {
+      const pid = this.getTabProcessId(tabId);
+      if (pid !== undefined) processIds.set(tabId, pid);
+    }
+    return processIds;
+  }
+
+  /**
+   * Hibernate a background tab: the renderer removes its webview, and the title,
+   * favicon, URL and scroll position are kept to reload it when selected
+   */
+  async discardTab(tabId: string): Promise<boolean> {
+    const tab = this.tabs.get(tabId);
+    if (!tab || tab.isDiscarded || tabId === this.activeTabId) return false;
+
+    const contents = tab.webContentsId !== undefined ? webContents.fromId(tab.webContentsId) : undefined;
+    if (contents && !contents.isDestroyed()) {
+      try {
+        tab.scrollPosition = await contents.executeJavaScript('window.scrollY', false);
+      } catch {
+        tab.scrollPosition = undefined;
+      }
+    }
+
+    // Selected or closed while the page was asked for its scroll position
+    if (!this.tabs.has(tabId) || tabId === this.activeTabId) {
+      tab.scrollPosition = undefined;
+      return false;
+    }
+
+    tab.isDiscarded = true;
+    tab.isAudible = false;
+    tab.webContentsId = undefined;
+    tab.state = { ...tab.state, isLoading: false };
+    this.sendToRenderer(IPC_CHANNELS.TAB_UPDATE, this.getTabList());
+    return true;
+  }
+
+  private restoreScrollPosition(tab: TabData, webContentsId: number): void {
+    const contents = webContents.fromId(webContentsId);
+    const scrollY = Number(tab.scrollPosition) || 0;
+    tab.scrollPosition = undefined;
+    if (!contents || contents.isDestroyed() || scrollY <= 0) return;
+
+    const restore = () => {
+      contents.executeJavaScript(`window.scrollTo(0, ${scrollY})`, false).catch(() => {
+        // Page navigated away or was closed
+      });
+    };
+
+    if (contents.isLoading()) {
+      contents.once('did-finish-load', restore);
+    } else {
+      restore();
+    }
   }
 
   getActiveTab(): TabData | null {
@@ -181,6 +292,7 @@ export class TabManager {
       isMuted: tab.isMuted,
       isAudible: tab.isAudible,
       groupId: tab.groupId,
+      isDiscarded: tab.isDiscarded,
       isActive: tab.id === this.activeTabId,
     }));
   }
@@ -254,6 +366,73 @@ export class TabManager {
     return newTabId;
   }
 
+  /**
+   * Work out where a tab would go if moved to the other mode
+   */
+  async getModeMove(tabId: string): Promise<TabModeMove | null> {
+    const tab = this.tabs.get(tabId);
+    if (!tab) return null;
+
+    const fromMode = tab.state.mode;
+    const toMode: BrowserMode = fromMode === 'internet' ? 'jubileebibles' : 'internet';
+    const url = tab.state.url;
+
+    const mappedUrl = toMode === 'jubileebibles'
+      ? await this.inspireResolver.reverseResolve(url)
+      : await this.inspireResolver.getPublicUrl(url);
+
+    return {
+      tabId,
+      fromMode,
+      toMode,
+      url: this.isUrlValidForMove(url, toMode) ? url : null,
+      mappedUrl: mappedUrl ?? undefined,
+      homepage: this.modeManager.getHomepage(toMode),
+    };
+  }
+
+  /**
+   * Move a tab to another mode, loading url there
+   * The renderer re-creates the tab's webview in the new mode's partition, so
+   * history, cookies and site storage from the old mode are not carried over.
+   */
+  moveTabToMode(tabId: string, mode: BrowserMode, url: string): boolean {
+    const tab = this.tabs.get(tabId);
+    if (!tab || tab.state.mode === mode || !this.isUrlValidForMove(url, mode)) return false;
+
+    tab.state = {
+      ...tab.state,
+      url,
+      mode,
+      title: 'New Tab',
+      favicon: undefined,
+      isLoading: true,
+      canGoBack: false,
+      canGoForward: false,
+      isSecure: undefined,
+    };
+    tab.webContentsId = undefined;
+    tab.isAudible = false;
+    tab.isDiscarded = false;
+    tab.scrollPosition = undefined;
+    this.tabs.set(tabId, tab);
+
+    // The moved tab stays selected, so the window follows it to the new mode
+    if (tabId === this.activeTabId && this.modeManager.getCurrentMode() !== mode) {
+      this.modeManager.switchMode(mode);
+    }
+
+    this.sendToRenderer(IPC_CHANNELS.TAB_UPDATE, this.getTabList());
+    return true;
+  }
+
+  private isUrlValidForMove(url: string, mode: BrowserMode): boolean {
+    // jubilee:// internal pages open in either mode, and new tabs open the mode's homepage anyway
+    return url.startsWith('jubilee://') ||
+      url === this.modeManager.getHomepage(mode) ||
+      this.modeManager.isUrlValidForMode(url, mode);
+  }
+
   /**
    * Pin a tab - moves it to the pinned region
    */
@@ -0,0 +1,280 @@
+/**
+ * Tracking Protection
+ * Applies the privacy.trackingProtection, cookieBehavior and doNotTrack settings to web requests
+ *
+ * - Tracker blocking: third-party requests to known tracker domains are cancelled
+ *   when tracking protection is standard or strict. In strict mode BlacklistManager
+ *   also applies the EasyList/EasyPrivacy network filters; those blocks are counted here.
+ * - Cookies: block-third-party strips Cookie / Set-Cookie headers on requests to a
+ *   different site than the tab's page (registrable domain, see publicSuffix.ts, so a
+ *   site's own subdomains keep their cookies); block-all strips them on every request.
+ * - Do Not Track: sends `DNT: 1` and `Sec-GPC: 1` on every request.
+ *
+ * Counters are kept per tab (webContentsId), reset on each top-level navigation,
+ * and pushed to the renderer for the address bar badge.
+ */
+
+import { BrowserWindow, Session, WebContents } from 'electron';
+import { DomainTrie } from './blocklistMatcher';
+import { getBaseDomain } from './publicSuffix';
+import { SettingsManager } from './settingsManager';
+import { IPC_CHANNELS, TrackingProtectionStats } from '../shared/types';
+
+// Well-known analytics, advertising and fingerprinting hosts (subdomains included)
+const KNOWN_TRACKERS = [
+  'google-analytics.com',
+  'googletagmanager.com',
+  'googletagservices.com',
+  'googlesyndication.com',
+  'googleadservices.com',
+  'doubleclick.net',
+  'connect.facebook.net',
+  'pixel.facebook.com',
+  'analytics.twitter.com',
+  'ads-twitter.com',
+  'bat.bing.com',
+  'clarity.ms',
+  'scorecardresearch.com',
+  'quantserve.com',
+  'hotjar.com',
+  'mouseflow.com',
+  'fullstory.com',
+  'crazyegg.com',
+  'segment.io',
+  'cdn.segment.com',
+  'api.segment.io',
+  'mixpanel.com',
+  'amplitude.com',
+  'heapanalytics.com',
+  'chartbeat.com',
+  'chartbeat.net',
+  'newrelic.com',
+  'nr-data.net',
+  'adnxs.com',
+  'criteo.com',
+  'criteo.net',
+  'taboola.com',
+  'outbrain.com',
+  'rubiconproject.com',
+  'pubmatic.com',
+  'openx.net',
+  'adsrvr.org',
+  'demdex.net',
+  'omtrdc.net',
+  'everesttech.net',
+  'krxd.net',
+  'bluekai.com',
+  'exelator.com',
+  'tapad.com',
+  'rlcdn.com',
+  'moatads.com',
+  'snap.licdn.com',
+  'px.ads.linkedin.com',
+  'analytics.tiktok.com',
+  'ct.pinterest.com',
+  'sc-static.net',
+  'mc.yandex.ru',
+  'fingerprintjs.com',
+  'fpjs.io',
+];
+
+const WEB_PROTOCOLS = ['http:', 'https:', 'ws:', 'wss:'];
+
+interface TabCounters {
+  trackersBlocked: number;
+  cookiesBlocked: number;
+  trackerDomains: Set<string>;
+}
+
+interface RequestInfo {
+  url: string;
+  resourceType: string;
+  webContentsId?: number;
+  webContents?: WebContents;
+}
+
+export class TrackingProtection {
+  private settingsManager: SettingsManager;
+  private trackers: DomainTrie = new DomainTrie(KNOWN_TRACKERS);
+  private tabCounters: Map<number, TabCounters> = new Map(); // key: webContentsId
+  private watchedTabs: Set<number> = new Set();
+  private mainWindow: BrowserWindow | null = null;
+
+  constructor(settingsManager: SettingsManager) {
+    this.settingsManager = settingsManager;
+  }
+
+  initialize(mainWindow: BrowserWindow): void {
+    this.mainWindow = mainWindow;
+  }
+
+  /**
+   * Strip cookies and add DNT / Sec-GPC headers on a session's requests
+   */
+  attachToSession(ses: Session): void {
+    ses.webRequest.onBeforeSendHeaders((details, callback) => {
+      const privacy = this.settingsManager.getSetting('privacy');
+      const requestHeaders = { ...details.requestHeaders };
+
+      if (privacy.doNotTrack) {
+        requestHeaders['DNT'] = '1';
+        requestHeaders['Sec-GPC'] = '1';
+      }
+
+      if (this.shouldStripCookies(details, privacy.cookieBehavior)) {
+        const removed = this.removeHeader(requestHeaders, 'cookie');
+        if (removed > 0) this.recordCookies(details, removed);
+      }
+
+      callback({ requestHeaders });
+    });
+
+    ses.webRequest.onHeadersReceived((details, callback) => {
+      const privacy = this.settingsManager.getSetting('privacy');
+      if (!details.responseHeaders || !this.shouldStripCookies(details, privacy.cookieBehavior)) {
+        callback({ responseHeaders: details.responseHeaders });
+        return;
+      }
+
+      const responseHeaders = { ...details.responseHeaders };
+      const removed = this.removeHeader(responseHeaders, 'set-cookie');
+      if (removed > 0) this.recordCookies(details, removed);
+      callback({ responseHeaders });
+    });
+  }
+
+  /**
+   * Whether a subresource request goes to a known third-party tracker and should be cancelled
+   */
+  shouldBlock(details: RequestInfo, firstPartyUrl?: string): boolean {
+    if (details.resourceType === 'mainFrame'
+      || this.settingsManager.getSetting('privacy').trackingProtection === 'off') {
+      return false;
+    }
+
+    const hostname = this.getHostname(details.url);
+    if (!hostname || !this.isThirdParty(hostname, firstPartyUrl)) {
+      return false;
+    }
+
+    const match = this.trackers.match(hostname);
+    if (!match) {
+      return false;
+    }
+
+    this.recordTracker(details, match.domain);
+    return true;
+  }
+
+  /**
+   * Count a tracker blocked elsewhere (strict-mode network filters in BlacklistManager)
+   */
+  recordTracker(details: Pick<RequestInfo, 'url' | 'webContentsId' | 'webContents'>, domain?: string): void {
+    const counters = this.getCounters(details);
+    if (!counters) return;
+
+    counters.trackersBlocked++;
+    counters.trackerDomains.add(domain || this.getHostname(details.url) || details.url);
+    this.notify(details.webContentsId!);
+  }
+
+  getStats(webContentsId: number): TrackingProtectionStats {
+    const counters = this.tabCounters.get(webContentsId);
+    return {
+      trackersBlocked: counters?.trackersBlocked || 0,
+      cookiesBlocked: counters?.cookiesBlocked || 0,
+      trackerDomains: counters ? Array.from(counters.trackerDomains) : [],
+    };
+  }
+
+  resetTab(webContentsId: number): void {
+    if (this.tabCounters.delete(webContentsId)) {
+      this.notify(webContentsId);
+    }
+  }
+
+  private shouldStripCookies(
+    details: RequestInfo,
+    cookieBehavior: 'allow' | 'block-third-party' | 'block-all'
+  ): boolean {
+    if (cookieBehavior === 'allow') return false;
+    if (cookieBehavior === 'block-all') return true;
+
+    // The tab's page is the first party; a main frame request is its own first party
+    if (details.resourceType === 'mainFrame') return false;
+    const hostname = this.getHostname(details.url);
+    return hostname !== null && this.isThirdParty(hostname, details.webContents?.getURL());
+  }
+
+  /**
+   * Different site from the first party: cdn.example.co.uk is first-party on www.example.co.uk,
+   * while me.github.io is third-party on you.github.io
+   */
+  private isThirdParty(hostname: string, firstPartyUrl?: string): boolean {
+    const firstPartyHostname = firstPartyUrl ? this.getHostname(firstPartyUrl) : null;
+    if (!firstPartyHostname) return false;
+    return getBaseDomain(hostname) !== getBaseDomain(firstPartyHostname);
+  }
+
+  private getHostname(url: string): string | null {
+    try {
+      const parsed = new URL(url);
+      return WEB_PROTOCOLS.includes(parsed.protocol) ? parsed.hostname.toLowerCase() : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Remove a header regardless of its case; returns the number of values removed
+   */
+  private removeHeader(headers: Record<string, string | string[]>, name: string): number {
+    let removed = 0;
+    for (const key of Object.keys(headers)) {
+      if (key.toLowerCase() === name) {
+        const value = headers[key];
+        removed += Array.isArray(value) ? value.length : 1;
+        delete headers[key];
+      }
+    }
+    return removed;
+  }
+
+  private recordCookies(details: RequestInfo, count: number): void {
+    const counters = this.getCounters(details);
+    if (!counters) return;
+
+    counters.cookiesBlocked += count;
+    this.notify(details.webContentsId!);
+  }
+
+  private getCounters(details: Pick<RequestInfo, 'webContentsId' | 'webContents'>): TabCounters | null {
+    const webContentsId = details.webContentsId;
+    if (webContentsId === undefined) return null;
+
+    let counters = this.tabCounters.get(webContentsId);
+    if (!counters) {
+      counters = { trackersBlocked: 0, cookiesBlocked: 0, trackerDomains: new Set() };
+      this.tabCounters.set(webContentsId, counters);
+    }
+
+    // Drop the counters when the tab is closed
+    if (details.webContents && !this.watchedTabs.has(webContentsId)) {
+      this.watchedTabs.add(webContentsId);
+      details.webContents.once('destroyed', () => {
+        this.tabCounters.delete(webContentsId);
+        this.watchedTabs.delete(webContentsId);
+      });
+    }
+    return counters;
+  }
+
+  private notify(webContentsId: number): void {
+    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
+      this.mainWindow.webContents.send(IPC_CHANNELS.TRACKING_PROTECTION_UPDATED, {
+        webContentsId,
+        stats: this.getStats(webContentsId),
+      });
+    }
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * URL Fixup
+ * Decides whether address bar input is an address, and turns it into a loadable URL
+ *
+ * - Explicit schemes are kept if the scheme is navigable (see getNavigationProtocols,
+ *   also enforced by will-navigate in main.ts); other schemes (`javascript:`, `mailto:`)
+ *   are not addresses
+ * - File paths become file:// URLs: `C:\Users\me\page.html`, `\\server\share\page.html`,
+ *   `/home/me/page.html`, `~/page.html`
+ * - `localhost`, `*.localhost`, IPv4 and IPv6 literals (`[::1]:8080`, `fe80::1`) and
+ *   local-network names (`nas.local`, `router.lan`, `app.test`) load over http://
+ * - Single-label intranet hosts need a port or a path to count as an address
+ *   (`intranet/page`, `devbox:8080`); a bare word is a search
+ * - Dotted hosts must end in a known top-level domain and must not be a public suffix
+ *   themselves (`co.uk`), both from the Public Suffix List (publicSuffix.ts), so
+ *   `john.3` or `node.js` are searches. Typing a path or a
+ *   trailing slash (`example.newtld/`) forces an address. Public hosts load over
+ *   https:// unless a non-443 port is given.
+ *
+ * Input that is not an address returns null and is searched by the caller.
+ * Kept free of Electron imports so it can be loaded by scripts.
+ */
+
+import * as net from 'net';
+import * as os from 'os';
+import { isKnownTopLevelDomain, isPublicSuffix } from './publicSuffix';
+
+// Protocols any page may navigate to; web space schemes (inspire:, church:, ...) are added per resolver
+export const NAVIGATION_PROTOCOLS = ['http:', 'https:', 'jubilee:', 'file:'];
+
+// Explicit scheme at the start of the input; `localhost:3000` and `example.com:8080/path` are ports, not schemes
+const SCHEME_PATTERN = /^([a-z][a-z0-9+.-]*):(?!\d+(?:[/?#]|$))/i;
+
+const LABEL_PATTERN = /^[\p{L}\p{N}](?:[\p{L}\p{N}-]*[\p{L}\p{N}])?$/u;
+const MAX_LABEL_LENGTH = 63;
+
+// Local-network and reserved names; these hosts load over http://
+const LOCAL_TLDS = new Set(['localhost', 'local', 'internal', 'lan', 'home', 'corp', 'intranet', 'private', 'test', 'example', 'invalid']);
+
+/**
+ * Navigable protocols (with trailing colon) for the given web space schemes
+ */
+export function getNavigationProtocols(webSpaceSchemes: string[] = []): string[] {
+  return [...NAVIGATION_PROTOCOLS, ...webSpaceSchemes.map((scheme) => `${scheme.toLowerCase()}:`)];
+}
+
+/**
+ * The URL to load for address bar input, or null if the input should be searched
+ */
+export function fixupUrl(input: string, webSpaceSchemes: string[] = []): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  const fileUrl = fixupFilePath(trimmed);
+  if (fileUrl) return fileUrl;
+
+  // Bare IPv6 literal: fe80::1, ::1/status
+  const bareHost = trimmed.split(/[/?#]/)[0];
+  if (net.isIPv6(bareHost)) {
+    return toUrl(`http://[${bareHost}]${trimmed.substring(bareHost.length)}`);
+  }
+
+  const schemeMatch = trimmed.match(SCHEME_PATTERN);
+  if (schemeMatch) {
+    const protocol = `${schemeMatch[1].toLowerCase()}:`;
+    if (!getNavigationProtocols(webSpaceSchemes).includes(protocol)) return null;
+
+    const url = toUrl(trimmed);
+    if (url && (protocol === 'http:' || protocol === 'https:') && !new URL(url).hostname) return null;
+    return url;
+  }
+
+  if (/\s/.test(trimmed)) return null;
+
+  // Protocol-relative: //example.com/page
+  return fixupAddress(trimmed.startsWith('//') ? trimmed.substring(2) : trimmed);
+}
+
+function fixupFilePath(input: string): string | null {
+  // Windows drive path: C:\Users\me\page.html
+  if (/^[a-z]:[\\/]/i.test(input)) {
+    return toFileUrl(`/${input.replace(/\\/g, '/')}`);
+  }
+
+  // Windows network path: \\server\share\page.html
+  if (/^\\\\[^\\]/.test(input)) {
+    return toFileUrl(input.replace(/\\/g, '/').substring(2));
+  }
+
+  // Home directory: ~/page.html
+  if (input === '~' || input.startsWith('~/')) {
+    return toFileUrl(`${os.homedir().replace(/\\/g, '/')}${input.substring(1)}`.replace(/^(?!\/)/, '/'));
+  }
+
+  // Absolute path: /home/me/page.html (but not //host)
+  if (input.startsWith('/') && !input.startsWith('//')) {
+    return toFileUrl(input);
+  }
+
+  return null;
+}
+
+function fixupAddress(input: string): string | null {
+  const match = input.match(/^([^/?#]+)([/?#].*)?$/);
+  if (!match) return null;
+
+  const [, authority, rest = ''] = match;
+
+  // user@example.com looks like an email address, not a login
+  if (authority.includes('@')) return null;
+
+  const ipv6Match = authority.match(/^\[([^\]]+)\](?::(\d+))?$/);
+  if (ipv6Match) {
+    const [, address, port] = ipv6Match;
+    if (!net.isIPv6(address) || !isValidPort(port)) return null;
+    return toUrl(`http://[${address}]${port ? `:${port}` : ''}${rest}`);
+  }
+
+  const hostMatch = authority.match(/^([^:]+)(?::(\d+))?$/);
+  if (!hostMatch) return null;
+
+  const [, rawHost, port] = hostMatch;
+  if (!isValidPort(port)) return null;
+
+  const host = rawHost.toLowerCase().replace(/\.$/, '');
+  const address = `${host}${port ? `:${port}` : ''}${rest}`;
+
+  if (net.isIPv4(host)) {
+    return toUrl(`http://${address}`);
+  }
+
+  const labels = host.split('.');
+  if (!labels.every((label) => label.length <= MAX_LABEL_LENGTH && LABEL_PATTERN.test(label))) {
+    return null;
+  }
+
+  const tld = labels[labels.length - 1];
+  if (/^\d+$/.test(tld)) return null;
+
+  if (tld === 'localhost' || (LOCAL_TLDS.has(tld) && labels.length > 1)) {
+    return toUrl(`http://${address}`);
+  }
+
+  // Intranet name: needs a port or a path
+  if (labels.length === 1) {
+    return port || rest.startsWith('/') ? toUrl(`http://${address}`) : null;
+  }
+
+  if (isPublicSuffix(host)) return null;
+
+  if (isKnownTopLevelDomain(tld) || rest.startsWith('/')) {
+    const scheme = port && port !== '443' ? 'http' : 'https';
+    return toUrl(`${scheme}://${address}`);
+  }
+
+  return null;
+}
+
+function isValidPort(port: string | undefined): boolean {
+  if (port === undefined) return true;
+  const value = Number(port);
+  return value >= 1 && value <= 65535;
+}
+
+function toFileUrl(filePath: string): string | null {
+  const encoded = encodeURI(filePath).replace(/\?/g, '%3F').replace(/#/g, '%23');
+  return toUrl(`file://${encoded}`);
+}
+
+function toUrl(candidate: string): string | null {
+  try {
+    return new URL(candidate).href;
+  } catch {
+    return null;
+  }
+}
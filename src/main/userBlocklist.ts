@@ -0,0 +1,168 @@
+/**
+ * User Blocklist
+ * Per-profile block and allow entries managed from Safe Browsing settings
+ *
+ * Entries are merged with the compiled lists by BlacklistManager:
+ * user allow entries override every block, and user block entries override
+ * the compiled allowlist.
+ */
+
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { UserListEntry, UserListKind, UserListPatternType, UserLists } from '../shared/types';
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)*$/;
+const WILDCARD_PATTERN = /^[a-z0-9*-]+(\.[a-z0-9*-]+)*$/;
+
+export class UserBlocklist {
+  private lists: UserLists = { block: [], allow: [] };
+  private wildcards: Map<string, RegExp> = new Map(); // key: entry ID
+  private dataPath: string;
+
+  constructor(profileDataPath?: string) {
+    const basePath = profileDataPath || app.getPath('userData');
+    this.dataPath = path.join(basePath, 'user-blocklist.json');
+    this.load();
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.dataPath)) {
+        const data = JSON.parse(fs.readFileSync(this.dataPath, 'utf-8')) as Partial<UserLists>;
+        this.lists = {
+          block: Array.isArray(data.block) ? data.block : [],
+          allow: Array.isArray(data.allow) ? data.allow : [],
+        };
+      }
+    } catch (error) {
+      console.error('Failed to load user blocklist:', error);
+      this.lists = { block: [], allow: [] };
+    }
+
+    for (const entry of [...this.lists.block, ...this.lists.allow]) {
+      this.compileWildcard(entry);
+    }
+  }
+
+  private save(): void {
+    try {
+      const dir = path.dirname(this.dataPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      fs.writeFileSync(this.dataPath, JSON.stringify(this.lists, null, 2));
+    } catch (error) {
+      console.error('Failed to save user blocklist:', error);
+    }
+  }
+
+  getLists(): UserLists {
+    return { block: [...this.lists.block], allow: [...this.lists.allow] };
+  }
+
+  addEntry(
+    kind: UserListKind,
+    pattern: string,
+    patternType: UserListPatternType,
+    reason: string = ''
+  ): { success: boolean; entry?: UserListEntry; error?: string } {
+    const normalized = this.normalizePattern(pattern, patternType);
+    if (!normalized) {
+      return { success: false, error: `"${pattern}" is not a valid ${patternType.replace('-', ' ')}` };
+    }
+
+    const existing = this.lists[kind].find(
+      (entry) => entry.pattern === normalized && entry.patternType === patternType
+    );
+    if (existing) {
+      return { success: false, error: `${normalized} is already in your ${kind} list` };
+    }
+
+    const entry: UserListEntry = {
+      id: uuidv4(),
+      pattern: normalized,
+      patternType,
+      reason: reason.trim(),
+      addedAt: Date.now(),
+    };
+
+    this.lists[kind].push(entry);
+    this.compileWildcard(entry);
+    this.save();
+
+    return { success: true, entry };
+  }
+
+  removeEntry(kind: UserListKind, id: string): boolean {
+    const index = this.lists[kind].findIndex((entry) => entry.id === id);
+    if (index > -1) {
+      this.lists[kind].splice(index, 1);
+      this.wildcards.delete(id);
+      this.save();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Find the first entry in a list that covers the URL
+   */
+  match(kind: UserListKind, url: string, hostname: string): UserListEntry | null {
+    const lowerUrl = url.toLowerCase();
+    const urlWithoutScheme = lowerUrl.replace(/^[a-z][a-z0-9+.-]*:\/\//, '');
+
+    for (const entry of this.lists[kind]) {
+      switch (entry.patternType) {
+        case 'domain':
+          if (hostname === entry.pattern || hostname.endsWith('.' + entry.pattern)) return entry;
+          break;
+        case 'wildcard':
+          if (this.wildcards.get(entry.id)?.test(hostname)) return entry;
+          break;
+        case 'url-prefix':
+          if (entry.pattern.includes('://')
+            ? lowerUrl.startsWith(entry.pattern)
+            : urlWithoutScheme.startsWith(entry.pattern)) {
+            return entry;
+          }
+          break;
+      }
+    }
+    return null;
+  }
+
+  private normalizePattern(pattern: string, patternType: UserListPatternType): string | null {
+    const trimmed = (pattern || '').trim().toLowerCase();
+    if (!trimmed) return null;
+
+    switch (patternType) {
+      case 'domain': {
+        const domain = trimmed
+          .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+          .split('/')[0]
+          .split(':')[0]
+          .replace(/\.$/, '');
+        return DOMAIN_PATTERN.test(domain) ? domain : null;
+      }
+      case 'wildcard':
+        return trimmed.includes('*') && WILDCARD_PATTERN.test(trimmed) ? trimmed : null;
+      case 'url-prefix':
+        return /\s/.test(trimmed) ? null : trimmed;
+      default:
+        return null;
+    }
+  }
+
+  private compileWildcard(entry: UserListEntry): void {
+    if (entry.patternType !== 'wildcard') return;
+
+    // "*" matches any run of characters in the hostname, e.g. "*.ads.example.com", "ads*.example.net"
+    const source = entry.pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\-]/g, '\\$&'))
+      .join('.*');
+    this.wildcards.set(entry.id, new RegExp(`^${source}$`));
+  }
+}
@@ -19,12 +19,26 @@ import {
   TabGroup,
   TabGroupColor,
   ClosedTabEntry,
+  TabModeMove,
   AuthSession,
   SignInRequest,
   SignInResponse,
   JubileeUserProfile,
   ParticipationFeature,
   PermissionCheckResult,
+  WebSpaceType,
+  InspireCacheStats,
+  InspireRegistrationRequest,
+  InspireRegistrationResult,
+  UserLists,
+  UserListEntry,
+  UserListKind,
+  UserListPatternType,
+  BlockReport,
+  TrackingProtectionStats,
+  OmniboxResolution,
+  OmniboxSuggestion,
+  SearchEngine,
 } from '../shared/types';
 
 // Type definitions for exposed APIs
@@ -35,6 +49,7 @@ interface TabAPI {
   list: () => Promise<ExtendedTabState[]>;
   onUpdate: (callback: (tabs: ExtendedTabState[]) => void) => () => void;
   updateState: (tabId: string, updates: Partial<TabState>) => void;
+  setAudible: (tabId: string, isAudible: boolean) => void;
   // Context menu actions
   duplicate: (tabId: string) => Promise<{ success: boolean; tabId?: string; tabs: ExtendedTabState[] }>;
   pin: (tabId: string) => Promise<{ success: boolean; tabs: ExtendedTabState[] }>;
@@ -46,6 +61,8 @@ interface TabAPI {
   reopenClosed: () => Promise<{ success: boolean; closedTab?: ClosedTabEntry; tabs: ExtendedTabState[] }>;
   getClosedTabs: () => Promise<{ closedTabs: ClosedTabEntry[]; hasClosedTabs: boolean }>;
   moveToNewWindow: (tabId: string) => Promise<{ success: boolean; error?: string }>;
+  getModeMove: (tabId: string) => Promise<TabModeMove | null>;
+  moveToMode: (tabId: string, mode: BrowserMode, url: string) => Promise<{ success: boolean; tabs: ExtendedTabState[] }>;
   // Group management
   addToGroup: (tabId: string, groupId: string) => Promise<{ success: boolean; tabs: ExtendedTabState[]; groups: TabGroup[] }>;
   removeFromGroup: (tabId: string) => Promise<{ success: boolean; tabs: ExtendedTabState[]; groups: TabGroup[] }>;
@@ -89,6 +106,12 @@ interface BookmarkAPI {
 
 interface InspireAPI {
   resolve: (url: string) => Promise<InspireResolution>;
+  normalize: (input: string) => Promise<string | null>;
+  getWebSpaceTypes: () => Promise<WebSpaceType[]>;
+  reverseResolve: (publicUrl: string) => Promise<string | null>;
+  getCacheStats: () => Promise<InspireCacheStats | null>;
+  clearCache: () => Promise<{ success: boolean }>;
+  register: (request: InspireRegistrationRequest) => Promise<InspireRegistrationResult>;
 }
 
 interface WindowAPI {
@@ -118,7 +141,37 @@ interface WebviewAPI {
 }
 
 interface BlacklistAPI {
-  onUrlBlocked: (callback: (data: { url: string; content: string }) => void) => () => void;
+  onUrlBlocked: (callback: (data: { url: string; categories: string[]; content: string }) => void) => () => void;
+  getUserLists: () => Promise<UserLists>;
+  addUserEntry: (
+    kind: UserListKind,
+    pattern: string,
+    patternType: UserListPatternType,
+    reason?: string
+  ) => Promise<{ success: boolean; entry?: UserListEntry; error?: string }>;
+  removeUserEntry: (kind: UserListKind, id: string) => Promise<{ success: boolean }>;
+  getReports: () => Promise<BlockReport[]>;
+  exportReports: () => Promise<{ success: boolean; filePath?: string; error?: string }>;
+  clearReports: () => Promise<{ success: boolean }>;
+}
+
+interface OmniboxAPI {
+  resolve: (input: string) => Promise<OmniboxResolution | null>;
+  suggest: (input: string, mode: BrowserMode) => Promise<OmniboxSuggestion[]>;
+}
+
+interface SearchAPI {
+  addEngine: (
+    name: string,
+    keyword: string,
+    urlTemplate: string
+  ) => Promise<{ success: boolean; engine?: SearchEngine; error?: string }>;
+  removeEngine: (id: string) => Promise<{ success: boolean }>;
+}
+
+interface TrackingProtectionAPI {
+  getStats: (webContentsId: number) => Promise<TrackingProtectionStats | null>;
+  onUpdated: (callback: (data: { webContentsId: number; stats: TrackingProtectionStats }) => void) => () => void;
 }
 
 interface UpdateAPI {
@@ -156,7 +209,7 @@ interface IdentityAPI {
   // Listen for session changes
   onSessionChanged: (callback: (session: AuthSession) => void) => () => void;
   // Listen for sign-in required events
-  onSignInRequired: (callback: (data: { feature?: ParticipationFeature }) => void) => () => void;
+  onSignInRequired: (callback: (data: { feature?: ParticipationFeature; url?: string; tabId?: string }) => void) => () => void;
 }
 
 // Helper to create unsubscribe function for event listeners
@@ -181,6 +234,8 @@ contextBridge.exposeInMainWorld('jubilee', {
       createEventListener(IPC_CHANNELS.TAB_UPDATE, callback),
     updateState: (tabId: string, updates: Partial<TabState>) =>
       ipcRenderer.send('tab:state-update', { tabId, updates }),
+    setAudible: (tabId: string, isAudible: boolean) =>
+      ipcRenderer.send('tab:audible', { tabId, isAudible }),
     // Context menu actions
     duplicate: (tabId: string) => ipcRenderer.invoke(IPC_CHANNELS.TAB_DUPLICATE, tabId),
     pin: (tabId: string) => ipcRenderer.invoke(IPC_CHANNELS.TAB_PIN, tabId),
@@ -192,6 +247,9 @@ contextBridge.exposeInMainWorld('jubilee', {
     reopenClosed: () => ipcRenderer.invoke(IPC_CHANNELS.TAB_REOPEN_CLOSED),
     getClosedTabs: () => ipcRenderer.invoke(IPC_CHANNELS.TAB_GET_CLOSED),
     moveToNewWindow: (tabId: string) => ipcRenderer.invoke(IPC_CHANNELS.TAB_MOVE_TO_NEW_WINDOW, tabId),
+    getModeMove: (tabId: string) => ipcRenderer.invoke(IPC_CHANNELS.TAB_GET_MODE_MOVE, tabId),
+    moveToMode: (tabId: string, mode: BrowserMode, url: string) =>
+      ipcRenderer.invoke(IPC_CHANNELS.TAB_MOVE_TO_MODE, { tabId, mode, url }),
     // Group management
     addToGroup: (tabId: string, groupId: string) => ipcRenderer.invoke(IPC_CHANNELS.TAB_ADD_TO_GROUP, { tabId, groupId }),
     removeFromGroup: (tabId: string) => ipcRenderer.invoke(IPC_CHANNELS.TAB_REMOVE_FROM_GROUP, tabId),
@@ -254,6 +312,13 @@ contextBridge.exposeInMainWorld('jubilee', {
   // Inspire namespace
   inspire: {
     resolve: (url: string) => ipcRenderer.invoke(IPC_CHANNELS.INSPIRE_RESOLVE, url),
+    normalize: (input: string) => ipcRenderer.invoke(IPC_CHANNELS.INSPIRE_NORMALIZE, input),
+    getWebSpaceTypes: () => ipcRenderer.invoke(IPC_CHANNELS.INSPIRE_GET_TYPES),
+    reverseResolve: (publicUrl: string) => ipcRenderer.invoke(IPC_CHANNELS.INSPIRE_REVERSE_RESOLVE, publicUrl),
+    getCacheStats: () => ipcRenderer.invoke(IPC_CHANNELS.INSPIRE_CACHE_STATS),
+    clearCache: () => ipcRenderer.invoke(IPC_CHANNELS.INSPIRE_CACHE_CLEAR),
+    register: (request: InspireRegistrationRequest) =>
+      ipcRenderer.invoke(IPC_CHANNELS.INSPIRE_REGISTER, request),
   } as InspireAPI,
 
   // Window controls
@@ -296,10 +361,39 @@ contextBridge.exposeInMainWorld('jubilee', {
 
   // Blacklist management
   blacklist: {
-    onUrlBlocked: (callback: (data: { url: string; content: string }) => void) =>
+    onUrlBlocked: (callback: (data: { url: string; categories: string[]; content: string }) => void) =>
       createEventListener('url-blocked', callback),
+    getUserLists: () => ipcRenderer.invoke(IPC_CHANNELS.SAFE_BROWSING_GET_USER_LISTS),
+    addUserEntry: (kind: UserListKind, pattern: string, patternType: UserListPatternType, reason?: string) =>
+      ipcRenderer.invoke(IPC_CHANNELS.SAFE_BROWSING_ADD_ENTRY, kind, pattern, patternType, reason),
+    removeUserEntry: (kind: UserListKind, id: string) =>
+      ipcRenderer.invoke(IPC_CHANNELS.SAFE_BROWSING_REMOVE_ENTRY, kind, id),
+    getReports: () => ipcRenderer.invoke(IPC_CHANNELS.SAFE_BROWSING_GET_REPORTS),
+    exportReports: () => ipcRenderer.invoke(IPC_CHANNELS.SAFE_BROWSING_EXPORT_REPORTS),
+    clearReports: () => ipcRenderer.invoke(IPC_CHANNELS.SAFE_BROWSING_CLEAR_REPORTS),
   } as BlacklistAPI,
 
+  // Address bar
+  omnibox: {
+    resolve: (input: string) => ipcRenderer.invoke(IPC_CHANNELS.OMNIBOX_RESOLVE, input),
+    suggest: (input: string, mode: BrowserMode) => ipcRenderer.invoke(IPC_CHANNELS.OMNIBOX_SUGGEST, input, mode),
+  } as OmniboxAPI,
+
+  // Search engines
+  search: {
+    addEngine: (name: string, keyword: string, urlTemplate: string) =>
+      ipcRenderer.invoke(IPC_CHANNELS.SEARCH_ADD_ENGINE, name, keyword, urlTemplate),
+    removeEngine: (id: string) => ipcRenderer.invoke(IPC_CHANNELS.SEARCH_REMOVE_ENGINE, id),
+  } as SearchAPI,
+
+  // Tracking protection
+  trackingProtection: {
+    getStats: (webContentsId: number) =>
+      ipcRenderer.invoke(IPC_CHANNELS.TRACKING_PROTECTION_GET_STATS, webContentsId),
+    onUpdated: (callback: (data: { webContentsId: number; stats: TrackingProtectionStats }) => void) =>
+      createEventListener(IPC_CHANNELS.TRACKING_PROTECTION_UPDATED, callback),
+  } as TrackingProtectionAPI,
+
   // Auto-update
   update: {
     checkForUpdates: () => ipcRenderer.invoke(IPC_CHANNELS.UPDATE_CHECK),
@@ -332,7 +426,7 @@ contextBridge.exposeInMainWorld('jubilee', {
       ipcRenderer.invoke(IPC_CHANNELS.AUTH_UPDATE_PROFILE, updates),
     onSessionChanged: (callback: (session: AuthSession) => void) =>
       createEventListener(IPC_CHANNELS.AUTH_SESSION_CHANGED, callback),
-    onSignInRequired: (callback: (data: { feature?: ParticipationFeature }) => void) =>
+    onSignInRequired: (callback: (data: { feature?: ParticipationFeature; url?: string; tabId?: string }) => void) =>
       createEventListener('auth:show-sign-in', callback),
   } as IdentityAPI,
 });
@@ -352,6 +446,9 @@ declare global {
       privacy: PrivacyAPI;
       webview: WebviewAPI;
       blacklist: BlacklistAPI;
+      omnibox: OmniboxAPI;
+      search: SearchAPI;
+      trackingProtection: TrackingProtectionAPI;
       update: UpdateAPI;
       session: SessionAPI;
       identity: IdentityAPI;
@@ -23,6 +23,7 @@ interface ExtendedTabState extends TabState {
   isMuted: boolean;
   isAudible: boolean;
   groupId?: string;
+  isDiscarded?: boolean;
 }
 
 interface TabGroup {
@@ -76,6 +77,35 @@ interface AuthSession {
   canAccessParticipation: boolean;
 }
 
+interface WebSpaceType {
+  fullName: string;
+  abbreviation?: string;
+  description?: string;
+}
+
+interface OmniboxSuggestion {
+  type: 'search' | 'url' | 'tab' | 'bookmark' | 'history' | 'inspire';
+  url: string;
+  title: string;
+  score: number;
+  tabId?: string;
+  favicon?: string;
+}
+
+interface TabModeMove {
+  tabId: string;
+  fromMode: BrowserMode;
+  toMode: BrowserMode;
+  url: string | null;
+  mappedUrl?: string;
+  homepage: string;
+}
+
+const MODE_NAMES: Record<BrowserMode, string> = {
+  internet: 'Internet',
+  jubileebibles: 'Jubilee Bibles',
+};
+
 // Webview element interface for Electron's webview tag
 interface WebviewElement extends HTMLElement {
   src: string;
@@ -120,6 +150,21 @@ class JubileeBrowserUI {
   private signInModalOpen: boolean = false;
   private profilePanelOpen: boolean = false;
   private pendingFeature: ParticipationFeature | null = null;
+  private pendingSignInUrl: string | null = null;  // Gated location to load after sign-in
+  private pendingSignInTabId: string | null = null;  // Tab that asked for it
+  // Public mirror URL -> inspire:// offer
+  private inspireOfferUrl: string | null = null;
+  private dismissedInspireOffers: Set<string> = new Set(); // private addresses
+  // Web space types served in JubileeBibles mode (inspire, church, apostle, ...)
+  private webSpaceTypes: WebSpaceType[] = [{ fullName: 'inspire', abbreviation: 'insp' }];
+  // Tracking protection counts per webview (webContentsId -> stats)
+  private trackerStats: Map<number, { trackersBlocked: number; cookiesBlocked: number }> = new Map();
+  // Address bar suggestions
+  private suggestions: OmniboxSuggestion[] = [];
+  private selectedSuggestion: number = -1;
+  private suggestionRequest: number = 0;
+  // Tab being moved to the other mode (waiting for the user to pick a URL)
+  private pendingModeMove: TabModeMove | null = null;
 
   // DOM Elements
   private elements!: {
@@ -133,8 +178,12 @@ class JubileeBrowserUI {
     reloadBtn: HTMLButtonElement;
     homeBtn: HTMLButtonElement;
     addressBar: HTMLInputElement;
+    omniboxDropdown: HTMLElement;
     modeToggle: HTMLInputElement;
     modeIndicator: HTMLElement;
+    webSpaceBadge: HTMLElement;
+    trackerBadge: HTMLElement;
+    trackerCount: HTMLElement;
     modeLabel: HTMLElement;
     contentArea: HTMLElement;
     welcomeMessage: HTMLElement;
@@ -162,6 +211,11 @@ class JubileeBrowserUI {
     updateNotification: HTMLElement;
     updateNotificationBtn: HTMLButtonElement;
     updateNotificationDismiss: HTMLButtonElement;
+    // Inspire address offer
+    inspireOffer: HTMLElement;
+    inspireOfferText: HTMLElement;
+    inspireOfferOpenBtn: HTMLButtonElement;
+    inspireOfferDismiss: HTMLButtonElement;
     // Overflow menu elements
     overflowMenu: HTMLElement;
     menuNewTab: HTMLButtonElement;
@@ -192,6 +246,16 @@ class JubileeBrowserUI {
     ctxAddToGroup: HTMLButtonElement;
     ctxRemoveFromGroup: HTMLButtonElement;
     ctxMoveToNewWindow: HTMLButtonElement;
+    ctxMoveToMode: HTMLButtonElement;
+    ctxMoveToModeLabel: HTMLElement;
+    modeMoveModal: HTMLElement;
+    modeMoveTitle: HTMLElement;
+    modeMoveText: HTMLElement;
+    modeMoveNote: HTMLElement;
+    modeMoveMappedBtn: HTMLButtonElement;
+    modeMoveAsIsBtn: HTMLButtonElement;
+    modeMoveHomeBtn: HTMLButtonElement;
+    closeModeMoveBtn: HTMLButtonElement;
     ctxCloseTab: HTMLButtonElement;
     ctxCloseOthers: HTMLButtonElement;
     ctxCloseToRight: HTMLButtonElement;
@@ -246,8 +310,12 @@ class JubileeBrowserUI {
       reloadBtn: document.getElementById('reloadBtn') as HTMLButtonElement,
       homeBtn: document.getElementById('homeBtn') as HTMLButtonElement,
       addressBar: document.getElementById('addressBar') as HTMLInputElement,
+      omniboxDropdown: document.getElementById('omniboxDropdown')!,
       modeToggle: document.getElementById('modeToggle') as HTMLInputElement,
       modeIndicator: document.getElementById('modeIndicator')!,
+      webSpaceBadge: document.getElementById('webSpaceBadge')!,
+      trackerBadge: document.getElementById('trackerBadge')!,
+      trackerCount: document.getElementById('trackerCount')!,
       modeLabel: document.getElementById('modeLabel')!,
       contentArea: document.getElementById('contentArea')!,
       welcomeMessage: document.getElementById('welcomeMessage')!,
@@ -275,6 +343,10 @@ class JubileeBrowserUI {
       updateNotification: document.getElementById('updateNotification')!,
       updateNotificationBtn: document.getElementById('updateNotificationBtn') as HTMLButtonElement,
       updateNotificationDismiss: document.getElementById('updateNotificationDismiss') as HTMLButtonElement,
+      inspireOffer: document.getElementById('inspireOffer')!,
+      inspireOfferText: document.getElementById('inspireOfferText')!,
+      inspireOfferOpenBtn: document.getElementById('inspireOfferOpenBtn') as HTMLButtonElement,
+      inspireOfferDismiss: document.getElementById('inspireOfferDismiss') as HTMLButtonElement,
       // Overflow menu elements
       overflowMenu: document.getElementById('overflowMenu')!,
       menuNewTab: document.getElementById('menuNewTab') as HTMLButtonElement,
@@ -305,6 +377,16 @@ class JubileeBrowserUI {
       ctxAddToGroup: document.getElementById('ctxAddToGroup') as HTMLButtonElement,
       ctxRemoveFromGroup: document.getElementById('ctxRemoveFromGroup') as HTMLButtonElement,
       ctxMoveToNewWindow: document.getElementById('ctxMoveToNewWindow') as HTMLButtonElement,
+      ctxMoveToMode: document.getElementById('ctxMoveToMode') as HTMLButtonElement,
+      ctxMoveToModeLabel: document.getElementById('ctxMoveToModeLabel')!,
+      modeMoveModal: document.getElementById('modeMoveModal')!,
+      modeMoveTitle: document.getElementById('modeMoveTitle')!,
+      modeMoveText: document.getElementById('modeMoveText')!,
+      modeMoveNote: document.getElementById('modeMoveNote')!,
+      modeMoveMappedBtn: document.getElementById('modeMoveMappedBtn') as HTMLButtonElement,
+      modeMoveAsIsBtn: document.getElementById('modeMoveAsIsBtn') as HTMLButtonElement,
+      modeMoveHomeBtn: document.getElementById('modeMoveHomeBtn') as HTMLButtonElement,
+      closeModeMoveBtn: document.getElementById('closeModeMoveBtn') as HTMLButtonElement,
       ctxCloseTab: document.getElementById('ctxCloseTab') as HTMLButtonElement,
       ctxCloseOthers: document.getElementById('ctxCloseOthers') as HTMLButtonElement,
       ctxCloseToRight: document.getElementById('ctxCloseToRight') as HTMLButtonElement,
@@ -378,15 +460,51 @@ class JubileeBrowserUI {
 
     // Address bar
     this.elements.addressBar.addEventListener('keydown', (e) => {
-      if (e.key === 'Enter') {
-        this.navigate(this.elements.addressBar.value);
+      const suggestionsOpen = this.suggestions.length > 0;
+      if (e.key === 'ArrowDown' && suggestionsOpen) {
+        e.preventDefault();
+        this.selectSuggestion((this.selectedSuggestion + 1) % this.suggestions.length);
+      } else if (e.key === 'ArrowUp' && suggestionsOpen) {
+        e.preventDefault();
+        this.selectSuggestion(this.selectedSuggestion <= 0 ? this.suggestions.length - 1 : this.selectedSuggestion - 1);
+      } else if (e.key === 'Escape' && suggestionsOpen) {
+        e.preventDefault();
+        this.hideSuggestions();
+      } else if (e.key === 'Enter') {
+        const suggestion = this.suggestions[this.selectedSuggestion];
+        this.hideSuggestions();
+        if (suggestion) {
+          this.openSuggestion(suggestion);
+        } else {
+          this.navigate(this.elements.addressBar.value);
+        }
       }
     });
 
+    this.elements.addressBar.addEventListener('input', () => {
+      this.updateSuggestions(this.elements.addressBar.value);
+    });
+
     this.elements.addressBar.addEventListener('focus', () => {
       this.elements.addressBar.select();
     });
 
+    this.elements.addressBar.addEventListener('blur', () => {
+      this.hideSuggestions();
+    });
+
+    // Keep focus in the address bar while a suggestion is clicked
+    this.elements.omniboxDropdown.addEventListener('mousedown', (e) => {
+      e.preventDefault();
+      const item = (e.target as HTMLElement).closest('.omnibox-item') as HTMLElement | null;
+      const suggestion = item ? this.suggestions[Number(item.dataset.index)] : undefined;
+      if (suggestion) {
+        this.hideSuggestions();
+        this.elements.addressBar.blur();
+        this.openSuggestion(suggestion);
+      }
+    });
+
     // Mode toggle
     this.elements.modeToggle.addEventListener('change', () => {
       const newMode: BrowserMode = this.elements.modeToggle.checked ? 'jubileebibles' : 'internet';
@@ -428,6 +546,10 @@ class JubileeBrowserUI {
     this.elements.updateNotificationBtn.addEventListener('click', () => this.installUpdate());
     this.elements.updateNotificationDismiss.addEventListener('click', () => this.dismissUpdateNotification());
 
+    // Inspire address offer
+    this.elements.inspireOfferOpenBtn.addEventListener('click', () => this.acceptInspireOffer());
+    this.elements.inspireOfferDismiss.addEventListener('click', () => this.dismissInspireOffer());
+
     // Keyboard shortcuts
     document.addEventListener('keydown', (e) => {
       // Ctrl+T - New tab
@@ -502,6 +624,8 @@ class JubileeBrowserUI {
       if (e.key === 'Escape') {
         if (this.signInModalOpen) {
           this.closeSignInModal();
+        } else if (this.pendingModeMove) {
+          this.closeModeMoveDialog();
         } else if (this.profilePanelOpen) {
           this.closeProfilePanel();
         } else if (this.menuOpen) {
@@ -663,6 +787,13 @@ class JubileeBrowserUI {
     this.currentMode = mode;
     this.updateModeUI();
 
+    // Load web space types for address parsing
+    try {
+      this.webSpaceTypes = await window.jubilee.inspire.getWebSpaceTypes();
+    } catch (error) {
+      console.error('Failed to load web space types:', error);
+    }
+
     // Load authentication session
     await this.loadAuthSession();
 
@@ -675,6 +806,7 @@ class JubileeBrowserUI {
     window.jubilee.tabs.onUpdate((tabs) => {
       this.tabs = tabs;
       this.activeTabId = tabs.find((t) => (t as any).isActive)?.id || null;
+      this.removeDiscardedWebviews();
       this.renderTabs();
       this.updateNavigationState();
     });
@@ -740,6 +872,12 @@ class JubileeBrowserUI {
       }
     });
 
+    // Subscribe to tracking protection counters
+    window.jubilee.trackingProtection.onUpdated(({ webContentsId, stats }) => {
+      this.trackerStats.set(webContentsId, stats);
+      this.updateTrackerBadge();
+    });
+
     // Subscribe to update state changes
     window.jubilee.update.onStateChanged((state) => {
       this.handleUpdateStateChange(state);
@@ -751,8 +889,10 @@ class JubileeBrowserUI {
     });
 
     // Subscribe to sign-in required events (from participation features)
-    window.jubilee.identity.onSignInRequired((data: { feature?: ParticipationFeature }) => {
+    window.jubilee.identity.onSignInRequired((data: { feature?: ParticipationFeature; url?: string; tabId?: string }) => {
       this.pendingFeature = data.feature || null;
+      this.pendingSignInUrl = data.url || null;
+      this.pendingSignInTabId = data.tabId || null;
       this.showSignInModal(data.feature);
     });
   }
@@ -793,6 +933,12 @@ class JubileeBrowserUI {
     await window.jubilee.tabs.switch(tabId);
     this.activeTabId = tabId;
 
+    // Hibernated tabs have no webview; reload the page (TabManager restores the scroll position)
+    const selectedTab = this.tabs.find((t) => t.id === tabId);
+    if (selectedTab && !this.webviews.has(tabId)) {
+      this.createWebview(tabId, selectedTab.url, selectedTab.mode);
+    }
+
     // Show/hide webviews
     this.webviews.forEach((wv, id) => {
       const container = wv.parentElement;
@@ -809,7 +955,20 @@ class JubileeBrowserUI {
     }
   }
 
-  private createWebview(tabId: string, url: string): void {
+  /**
+   * Free the webviews of tabs TabManager has hibernated
+   */
+  private removeDiscardedWebviews(): void {
+    for (const tab of this.tabs) {
+      const webview = this.webviews.get(tab.id);
+      if (tab.isDiscarded && webview && tab.id !== this.activeTabId) {
+        webview.parentElement?.remove();
+        this.webviews.delete(tab.id);
+      }
+    }
+  }
+
+  private createWebview(tabId: string, url: string, mode: BrowserMode = this.currentMode): void {
     // Create container
     const container = document.createElement('div');
     container.className = 'webview-container active';
@@ -817,18 +976,13 @@ class JubileeBrowserUI {
 
     // Create webview
     const webview = document.createElement('webview') as unknown as WebviewElement;
-    webview.setAttribute('partition', `persist:${this.currentMode}`);
+    webview.setAttribute('partition', `persist:${mode}`);
     webview.setAttribute('allowpopups', 'false');
     webview.setAttribute('webpreferences', 'contextIsolation=yes, nodeIntegration=no, sandbox=yes');
 
-    // Handle JubileeBibles inspire:// URLs
-    if (url.startsWith('inspire://') || url.endsWith('.inspire')) {
-      // Resolve and load inspire content
-      this.loadInspireContent(webview, url);
-    } else {
-      // For regular URLs (http/https), load directly
-      webview.src = url;
-    }
+    // Web space URLs (inspire://, church://, apos://, ...) are served by the
+    // JubileeBibles session's protocol handler, so they load like any other URL
+    webview.src = url;
 
     // Bind webview events
     this.bindWebviewEvents(webview, tabId);
@@ -845,53 +999,6 @@ class JubileeBrowserUI {
     });
   }
 
-  private async loadInspireContent(webview: WebviewElement, url: string): Promise<void> {
-    try {
-      const resolution = await window.jubilee.inspire.resolve(url);
-      if (resolution.success && resolution.content) {
-        // Load HTML content directly
-        webview.src = `data:text/html;charset=utf-8,${encodeURIComponent(resolution.content)}`;
-      } else {
-        // Load error page
-        const errorContent = this.getInspireErrorPage(resolution.errorMessage || 'Unknown error');
-        webview.src = `data:text/html;charset=utf-8,${encodeURIComponent(errorContent)}`;
-      }
-    } catch (error) {
-      const errorContent = this.getInspireErrorPage(error instanceof Error ? error.message : 'Failed to resolve location');
-      webview.src = `data:text/html;charset=utf-8,${encodeURIComponent(errorContent)}`;
-    }
-  }
-
-  private getInspireErrorPage(message: string): string {
-    return `
-<!DOCTYPE html>
-<html>
-<head>
-  <style>
-    body {
-      font-family: 'Segoe UI', sans-serif;
-      background: #1a1a2e;
-      color: #e8e8e8;
-      display: flex;
-      align-items: center;
-      justify-content: center;
-      min-height: 100vh;
-      margin: 0;
-    }
-    .container { text-align: center; padding: 2rem; }
-    h1 { color: #ffd700; margin-bottom: 1rem; }
-    .error { color: #ff9999; background: rgba(255,0,0,0.1); padding: 1rem; border-radius: 8px; }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <h1>Location Not Found</h1>
-    <div class="error">${this.escapeHtml(message)}</div>
-  </div>
-</body>
-</html>`;
-  }
-
   private escapeHtml(text: string): string {
     const div = document.createElement('div');
     div.textContent = text;
@@ -921,6 +1028,7 @@ class JubileeBrowserUI {
       if (tabId === this.activeTabId) {
         this.elements.addressBar.value = this.formatAddressBarDisplay(url, isSecure);
         this.updateNavigationState();
+        this.checkInspireOffer(url);
       }
     });
 
@@ -943,6 +1051,14 @@ class JubileeBrowserUI {
       }
     });
 
+    webview.addEventListener('media-started-playing', () => {
+      window.jubilee.tabs.setAudible(tabId, true);
+    });
+
+    webview.addEventListener('media-paused', () => {
+      window.jubilee.tabs.setAudible(tabId, false);
+    });
+
     webview.addEventListener('new-window', (e: any) => {
       e.preventDefault();
       // Open in new tab instead
@@ -974,6 +1090,7 @@ class JubileeBrowserUI {
       if ((tab as any).isActive) tabClass += ' active';
       if (tab.mode === 'jubileebibles') tabClass += ' jubileebibles-tab';
       if (tab.isPinned) tabClass += ' pinned';
+      if (tab.isDiscarded) tabClass += ' discarded';
       if (tab.groupId) {
         const group = this.tabGroups.find(g => g.id === tab.groupId);
         if (group) tabClass += ` group-${group.color}`;
@@ -1048,6 +1165,7 @@ class JubileeBrowserUI {
       if ((tab as any).isActive) {
         this.activeTabId = tab.id;
         this.elements.addressBar.value = this.formatAddressBarDisplay(tab.url, tab.isSecure);
+        this.updateTrackerBadge();
       }
     });
 
@@ -1084,33 +1202,25 @@ class JubileeBrowserUI {
 
     // Handle based on mode
     if (this.currentMode === 'jubileebibles') {
-      // In JubileeBibles mode, treat input as inspire address
-      if (!url.startsWith('inspire://') && !url.includes('://')) {
-        if (!url.endsWith('.inspire')) {
-          url = `${url}.inspire`;
-        }
-        url = `inspire://${url}`;
+      // In JubileeBibles mode, treat input as a web space address
+      const webSpaceUrl = await window.jubilee.inspire.normalize(url);
+      if (webSpaceUrl) {
+        url = webSpaceUrl;
+      } else if (!url.includes('://')) {
+        url = `inspire://${url}.inspire`;
       }
     } else {
-      // Internet mode - standard URL handling
-      if (!url.includes('://')) {
-        if (url.includes('.') && !url.includes(' ')) {
-          url = `https://${url}`;
-        } else {
-          // Search query
-          url = `https://www.google.com/search?q=${encodeURIComponent(url)}`;
-        }
+      // Internet mode - URL, keyword search or default search engine
+      const resolution = await window.jubilee.omnibox.resolve(url);
+      if (resolution) {
+        url = resolution.url;
       }
     }
 
     // Navigate active webview
     const webview = this.activeTabId ? this.webviews.get(this.activeTabId) : null;
     if (webview) {
-      if (this.currentMode === 'jubileebibles' && url.startsWith('inspire://')) {
-        await this.loadInspireContent(webview, url);
-      } else {
-        webview.src = url;
-      }
+      webview.src = url;
       const isSecure = url.startsWith('https://');
       this.elements.addressBar.value = this.formatAddressBarDisplay(url, isSecure);
     }
@@ -1118,6 +1228,69 @@ class JubileeBrowserUI {
     await window.jubilee.navigation.go(url);
   }
 
+  private async updateSuggestions(input: string): Promise<void> {
+    const request = ++this.suggestionRequest;
+    const suggestions = input.trim() ? await window.jubilee.omnibox.suggest(input, this.currentMode) : [];
+
+    // A newer keystroke already asked for suggestions
+    if (request !== this.suggestionRequest) return;
+
+    this.suggestions = suggestions;
+    this.selectedSuggestion = -1;
+    this.renderSuggestions();
+  }
+
+  private renderSuggestions(): void {
+    const dropdown = this.elements.omniboxDropdown;
+    if (this.suggestions.length === 0) {
+      dropdown.classList.remove('visible');
+      dropdown.innerHTML = '';
+      return;
+    }
+
+    const labels: Record<OmniboxSuggestion['type'], string> = {
+      search: 'Search',
+      url: 'Go to',
+      tab: 'Switch to tab',
+      bookmark: 'Bookmark',
+      history: 'History',
+      inspire: 'Location',
+    };
+
+    dropdown.innerHTML = this.suggestions
+      .map((suggestion, index) => `
+        <div class="omnibox-item${index === this.selectedSuggestion ? ' selected' : ''}" data-index="${index}">
+          <span class="omnibox-item-type">${labels[suggestion.type]}</span>
+          <span class="omnibox-item-title">${this.escapeHtml(suggestion.title)}</span>
+          ${suggestion.type === 'search' || suggestion.type === 'url' ? '' : `<span class="omnibox-item-url">${this.escapeHtml(suggestion.url)}</span>`}
+        </div>
+      `)
+      .join('');
+    dropdown.classList.add('visible');
+  }
+
+  private selectSuggestion(index: number): void {
+    this.selectedSuggestion = index;
+    this.elements.omniboxDropdown.querySelectorAll('.omnibox-item').forEach((item, i) => {
+      item.classList.toggle('selected', i === index);
+    });
+  }
+
+  private hideSuggestions(): void {
+    this.suggestionRequest++;
+    this.suggestions = [];
+    this.selectedSuggestion = -1;
+    this.renderSuggestions();
+  }
+
+  private openSuggestion(suggestion: OmniboxSuggestion): void {
+    if (suggestion.type === 'tab' && suggestion.tabId && this.tabs.some((t) => t.id === suggestion.tabId)) {
+      this.switchTab(suggestion.tabId);
+      return;
+    }
+    this.navigate(suggestion.url);
+  }
+
   private goBack(): void {
     const webview = this.activeTabId ? this.webviews.get(this.activeTabId) : null;
     if (webview && webview.canGoBack()) {
@@ -1280,6 +1453,49 @@ class JubileeBrowserUI {
     }
   }
 
+  /**
+   * Offer to open a public mirror URL under its private inspire:// address
+   */
+  private async checkInspireOffer(url: string): Promise<void> {
+    if (this.currentMode !== 'internet' || this.isJubileeWindow || !/^https?:\/\//.test(url)) {
+      this.hideInspireOffer();
+      return;
+    }
+
+    const inspireUrl = await window.jubilee.inspire.reverseResolve(url);
+    if (!inspireUrl || this.dismissedInspireOffers.has(inspireUrl)) {
+      this.hideInspireOffer();
+      return;
+    }
+
+    this.inspireOfferUrl = inspireUrl;
+    this.elements.inspireOfferText.textContent = `This page is available as ${inspireUrl}`;
+    this.elements.inspireOffer.classList.remove('hidden');
+  }
+
+  private async acceptInspireOffer(): Promise<void> {
+    const inspireUrl = this.inspireOfferUrl;
+    this.hideInspireOffer();
+    if (!inspireUrl) return;
+
+    await window.jubilee.mode.switch('jubileebibles');
+    this.currentMode = 'jubileebibles';
+    this.updateModeUI();
+    await this.createTab(inspireUrl);
+  }
+
+  private dismissInspireOffer(): void {
+    if (this.inspireOfferUrl) {
+      this.dismissedInspireOffers.add(this.inspireOfferUrl);
+    }
+    this.hideInspireOffer();
+  }
+
+  private hideInspireOffer(): void {
+    this.inspireOfferUrl = null;
+    this.elements.inspireOffer.classList.add('hidden');
+  }
+
   private updateModeUI(): void {
     const isJubileeBibles = this.currentMode === 'jubileebibles';
 
@@ -1291,7 +1507,7 @@ class JubileeBrowserUI {
 
     // Update address bar placeholder
     this.elements.addressBar.placeholder = isJubileeBibles
-      ? 'Enter .inspire address...'
+      ? 'Enter web space address (.inspire, .church, ...)'
       : 'Enter address or search...';
 
     // Update nav bar style immediately
@@ -1306,9 +1522,57 @@ class JubileeBrowserUI {
     return settings.homepage.internet;
   }
 
+  /**
+   * Find the web space type of a URL by its scheme (church://, apos://) or host suffix (grace.church)
+   */
+  private getWebSpaceType(url: string): WebSpaceType | null {
+    const match = /^(?:([a-z][a-z0-9+.-]*):\/\/)?([^/?#\s]+)/i.exec(url.trim());
+    if (!match) return null;
+
+    const [, scheme, host] = match;
+    const suffix = host.includes('.') ? host.substring(host.lastIndexOf('.') + 1) : '';
+    const find = (name: string) => this.webSpaceTypes.find((type) =>
+      type.fullName === name.toLowerCase() || type.abbreviation === name.toLowerCase()
+    );
+
+    if (scheme) {
+      return find(scheme) ? (find(suffix) ?? find(scheme)!) : null;
+    }
+    return suffix ? find(suffix) ?? null : null;
+  }
+
+  private updateWebSpaceBadge(url: string): void {
+    const type = this.getWebSpaceType(url);
+    this.elements.webSpaceBadge.textContent = type ? type.fullName : '';
+    this.elements.webSpaceBadge.title = type?.description ?? '';
+    this.elements.webSpaceBadge.classList.toggle('visible', type !== null);
+  }
+
+  /**
+   * Show how many trackers and third-party cookies were blocked on the active tab's page
+   */
+  private updateTrackerBadge(): void {
+    let stats: { trackersBlocked: number; cookiesBlocked: number } | undefined;
+    const webview = this.activeTabId ? this.webviews.get(this.activeTabId) : undefined;
+    try {
+      stats = webview ? this.trackerStats.get(webview.getWebContentsId()) : undefined;
+    } catch (err) {
+      // The webview is not attached yet
+    }
+
+    const trackers = stats?.trackersBlocked || 0;
+    const cookies = stats?.cookiesBlocked || 0;
+    this.elements.trackerCount.textContent = trackers > 0 ? String(trackers) : '';
+    this.elements.trackerBadge.title = `${trackers} tracker${trackers === 1 ? '' : 's'} and ${cookies} cookie${cookies === 1 ? '' : 's'} blocked on this page`;
+    this.elements.trackerBadge.classList.toggle('visible', trackers > 0 || cookies > 0);
+  }
+
   private formatAddressBarDisplay(url: string, isSecure?: boolean): string {
+    // Show the web space type next to the address
+    this.updateWebSpaceBadge(url);
+
     // Don't modify special URLs
-    if (url.startsWith('about:') || url.startsWith('jubilee:') || url.startsWith('file:') || url.startsWith('inspire:')) {
+    if (url.startsWith('about:') || url.startsWith('jubilee:') || url.startsWith('file:') || this.getWebSpaceType(url)) {
       return url;
     }
 
@@ -1818,6 +2082,31 @@ class JubileeBrowserUI {
       }
     });
 
+    this.elements.ctxMoveToMode.addEventListener('click', () => {
+      if (this.contextMenuTabId) {
+        const tabId = this.contextMenuTabId;
+        this.closeTabContextMenu();
+        this.openModeMoveDialog(tabId);
+      }
+    });
+
+    // Move-to-mode dialog
+    this.elements.modeMoveMappedBtn.addEventListener('click', () => {
+      this.moveTabToMode(this.pendingModeMove?.mappedUrl);
+    });
+    this.elements.modeMoveAsIsBtn.addEventListener('click', () => {
+      this.moveTabToMode(this.pendingModeMove?.url);
+    });
+    this.elements.modeMoveHomeBtn.addEventListener('click', () => {
+      this.moveTabToMode(this.pendingModeMove?.homepage);
+    });
+    this.elements.closeModeMoveBtn.addEventListener('click', () => this.closeModeMoveDialog());
+    this.elements.modeMoveModal.addEventListener('click', (e) => {
+      if (e.target === this.elements.modeMoveModal) {
+        this.closeModeMoveDialog();
+      }
+    });
+
     this.elements.ctxCloseTab.addEventListener('click', () => {
       if (this.contextMenuTabId) {
         this.closeTabContextMenu();
@@ -1948,6 +2237,11 @@ class JubileeBrowserUI {
       this.elements.ctxAddToGroup.classList.remove('hidden');
     }
 
+    // Jubilee windows stay in Jubilee Bibles mode
+    const otherMode: BrowserMode = tab.mode === 'internet' ? 'jubileebibles' : 'internet';
+    this.elements.ctxMoveToModeLabel.textContent = `Move tab to ${MODE_NAMES[otherMode]}`;
+    this.elements.ctxMoveToMode.classList.toggle('hidden', this.isJubileeWindow);
+
     // Check if reopen closed is available
     this.updateReopenClosedState();
 
@@ -2213,6 +2507,72 @@ class JubileeBrowserUI {
     }
   }
 
+  /**
+   * Show the options for moving a tab to the other mode
+   */
+  private async openModeMoveDialog(tabId: string): Promise<void> {
+    const move = await window.jubilee.tabs.getModeMove(tabId);
+    if (!move) return;
+
+    const from = MODE_NAMES[move.fromMode];
+    const to = MODE_NAMES[move.toMode];
+    this.pendingModeMove = move;
+
+    this.elements.modeMoveTitle.textContent = `Move tab to ${to}`;
+    this.elements.modeMoveText.textContent = move.url || move.mappedUrl
+      ? `Choose what to open in ${to}.`
+      : `This page can't be opened in ${to}. The tab can open the ${to} home page instead.`;
+    this.elements.modeMoveNote.textContent =
+      `Cookies, sign-ins and site data stay in ${from}. The page reloads in ${to}'s separate storage, ` +
+      'so you may need to sign in again, and back/forward history starts over.';
+
+    this.elements.modeMoveMappedBtn.textContent = move.mappedUrl ? `Open ${move.mappedUrl}` : '';
+    this.elements.modeMoveMappedBtn.classList.toggle('hidden', !move.mappedUrl);
+    this.elements.modeMoveAsIsBtn.classList.toggle('hidden', !move.url);
+    this.elements.modeMoveHomeBtn.textContent = `Open ${to} home page`;
+    this.elements.modeMoveHomeBtn.classList.toggle('hidden', !!(move.url || move.mappedUrl));
+
+    this.elements.modeMoveModal.classList.add('visible');
+  }
+
+  private closeModeMoveDialog(): void {
+    this.pendingModeMove = null;
+    this.elements.modeMoveModal.classList.remove('visible');
+  }
+
+  /**
+   * Move the pending tab, re-creating its webview in the other mode's partition
+   */
+  private async moveTabToMode(url: string | null | undefined): Promise<void> {
+    const move = this.pendingModeMove;
+    this.closeModeMoveDialog();
+    if (!move || !url) return;
+
+    const { success, tabs } = await window.jubilee.tabs.moveToMode(move.tabId, move.toMode, url);
+    if (!success) return;
+
+    this.tabs = tabs;
+    this.activeTabId = tabs.find((t: any) => t.isActive)?.id || this.activeTabId;
+
+    // A webview's partition can't change once it has loaded, so replace it
+    const oldWebview = this.webviews.get(move.tabId);
+    if (oldWebview) {
+      oldWebview.parentElement?.remove();
+      this.webviews.delete(move.tabId);
+    }
+    this.createWebview(move.tabId, url, move.toMode);
+
+    this.webviews.forEach((wv, id) => {
+      wv.parentElement?.classList.toggle('active', id === this.activeTabId);
+    });
+
+    if (move.tabId === this.activeTabId) {
+      this.elements.addressBar.value = this.formatAddressBarDisplay(url, url.startsWith('https://'));
+      this.updateNavigationState();
+    }
+    this.renderTabs();
+  }
+
   /**
    * Add tab to existing group
    */
@@ -2350,6 +2710,17 @@ class JubileeBrowserUI {
     this.authSession = session;
     this.updateAuthUI();
 
+    // Load the location that asked for sign-in, in the tab that asked for it (if still open)
+    const returnUrl = this.pendingSignInUrl;
+    if (session.isAuthenticated && returnUrl) {
+      const webview = this.pendingSignInTabId ? this.webviews.get(this.pendingSignInTabId) : null;
+      if (webview) {
+        webview.src = returnUrl;
+      }
+      this.pendingSignInUrl = null;
+      this.pendingSignInTabId = null;
+    }
+
     // If sign-in was successful and modal is open, close it
     if (session.isAuthenticated && this.signInModalOpen) {
       this.closeSignInModal();
@@ -2455,6 +2826,8 @@ class JubileeBrowserUI {
 
     this.signInModalOpen = false;
     this.pendingFeature = null;
+    this.pendingSignInUrl = null;
+    this.pendingSignInTabId = null;
     this.elements.signInModal.classList.remove('visible');
   }
 
@@ -52,12 +52,25 @@ export interface SessionData {
 export interface InspireResolution {
   success: boolean;
   internalUrl?: string;  // .ins internal URL
+  remoteUrl?: string;    // Hosted content: the public base URL the location is served from
   contentType: 'local' | 'hosted' | 'distributed' | 'error';
   content?: string;
+  body?: Buffer;         // Distributed content, served byte for byte (binary assets included)
+  mimeType?: string;     // Defaults to text/html; for a body, the mirror's full Content-Type
+  filePath?: string;     // Bundled file to serve when there is no string content (images, fonts)
+  statusCode?: number;   // e.g., 404 for unknown paths within a location
+  mirrorUrl?: string;    // Mirror that served 'distributed' content
+  integrityVerified?: boolean;
   metadata?: InspireMetadata;
   errorMessage?: string;
 }
 
+// Mirror origin for a 'distributed' .inspire location
+export interface InspireMirror {
+  url: string;           // Origin the location's paths are appended to
+  priority: number;      // Lower = preferred
+}
+
 // Metadata for .inspire locations
 export interface InspireMetadata {
   name: string;
@@ -68,6 +81,33 @@ export interface InspireMetadata {
   permissions?: string[];
 }
 
+// Location published by a steward through INSPIRE_REGISTER
+export interface InspireRegistrationPayload {
+  address: string;                    // e.g., "grace.church"
+  internalAddress?: string;
+  metadata: InspireMetadata;          // metadata.steward must match the signing key's steward
+  content?: string;
+  routes?: Record<string, string>;
+  remoteUrl?: string;
+  mirrors?: InspireMirror[];
+  integrity?: Record<string, string>;
+  issuedAt: number;                   // Signing time (ms); stale requests are rejected
+}
+
+// Signed registration request
+export interface InspireRegistrationRequest {
+  payload: InspireRegistrationPayload;
+  keyId: string;                      // Trusted key that produced the signature
+  signature: string;                  // Base64 signature over the canonical JSON of payload
+}
+
+export interface InspireRegistrationResult {
+  success: boolean;
+  address?: string;
+  updated?: boolean;                  // An existing location was replaced
+  error?: string;
+}
+
 // Update status for auto-updater
 export type UpdateStatus =
   | 'idle'
@@ -132,6 +172,7 @@ export interface ExtendedTabState extends TabState {
   isMuted: boolean;
   isAudible: boolean;
   groupId?: string;
+  isDiscarded?: boolean;  // Hibernated: no webview until the tab is selected again
 }
 
 // Closed tab entry for restoration
@@ -144,6 +185,17 @@ export interface ClosedTabEntry {
   scrollPosition?: number;
 }
 
+// Options for moving a tab to the other mode. The tab gets a new webview in the
+// target mode's partition; cookies and site storage stay behind in the old one.
+export interface TabModeMove {
+  tabId: string;
+  fromMode: BrowserMode;
+  toMode: BrowserMode;
+  url: string | null;     // Current URL, if it is valid in the target mode
+  mappedUrl?: string;     // Equivalent address in the target mode (public URL <-> web space address)
+  homepage: string;       // Target mode's homepage, used when neither URL applies
+}
+
 // IPC Channel names - centralized for type safety
 export const IPC_CHANNELS = {
   // Tab management
@@ -158,6 +210,8 @@ export const IPC_CHANNELS = {
   TAB_MUTE: 'tab:mute',
   TAB_UNMUTE: 'tab:unmute',
   TAB_MOVE_TO_NEW_WINDOW: 'tab:move-to-new-window',
+  TAB_GET_MODE_MOVE: 'tab:get-mode-move',
+  TAB_MOVE_TO_MODE: 'tab:move-to-mode',
   TAB_CLOSE_OTHERS: 'tab:close-others',
   TAB_CLOSE_TO_RIGHT: 'tab:close-to-right',
   TAB_REOPEN_CLOSED: 'tab:reopen-closed',
@@ -195,6 +249,11 @@ export const IPC_CHANNELS = {
   // Inspire resolution
   INSPIRE_RESOLVE: 'inspire:resolve',
   INSPIRE_REGISTER: 'inspire:register',
+  INSPIRE_NORMALIZE: 'inspire:normalize',
+  INSPIRE_GET_TYPES: 'inspire:get-types',
+  INSPIRE_CACHE_STATS: 'inspire:cache-stats',
+  INSPIRE_CACHE_CLEAR: 'inspire:cache-clear',
+  INSPIRE_REVERSE_RESOLVE: 'inspire:reverse-resolve',
 
   // Window controls
   WINDOW_MINIMIZE: 'window:minimize',
@@ -234,6 +293,24 @@ export const IPC_CHANNELS = {
   // Privacy / Clear Data
   PRIVACY_CLEAR_DATA: 'privacy:clear-data',
 
+  // Safe Browsing user lists
+  SAFE_BROWSING_GET_USER_LISTS: 'safe-browsing:get-user-lists',
+  SAFE_BROWSING_ADD_ENTRY: 'safe-browsing:add-entry',
+  SAFE_BROWSING_REMOVE_ENTRY: 'safe-browsing:remove-entry',
+  SAFE_BROWSING_GET_REPORTS: 'safe-browsing:get-reports',
+  SAFE_BROWSING_EXPORT_REPORTS: 'safe-browsing:export-reports',
+  SAFE_BROWSING_CLEAR_REPORTS: 'safe-browsing:clear-reports',
+
+  // Search engines / address bar
+  OMNIBOX_RESOLVE: 'omnibox:resolve',
+  OMNIBOX_SUGGEST: 'omnibox:suggest',
+  SEARCH_ADD_ENGINE: 'search:add-engine',
+  SEARCH_REMOVE_ENGINE: 'search:remove-engine',
+
+  // Tracking protection
+  TRACKING_PROTECTION_GET_STATS: 'tracking-protection:get-stats',
+  TRACKING_PROTECTION_UPDATED: 'tracking-protection:updated',
+
   // Auto-update
   UPDATE_CHECK: 'update:check',
   UPDATE_DOWNLOAD: 'update:download',
@@ -283,6 +360,150 @@ export interface SearchEngine {
   name: string;
   urlTemplate: string; // URL with {searchTerms} placeholder
   isDefault: boolean;
+  keyword?: string;    // Address bar shortcut, e.g. "ddg bible verse"
+  isCustom?: boolean;  // Added by the user in Search settings
+}
+
+/**
+ * Address bar suggestion (see OmniboxSuggestionProvider)
+ */
+export type OmniboxSuggestionType = 'search' | 'url' | 'tab' | 'bookmark' | 'history' | 'inspire';
+
+export interface OmniboxSuggestion {
+  type: OmniboxSuggestionType;
+  url: string;
+  title: string;
+  score: number;
+  tabId?: string;      // Open tab to switch to
+  favicon?: string;
+}
+
+/**
+ * What the address bar input resolved to
+ */
+export interface OmniboxResolution {
+  url: string;
+  isSearch: boolean;
+  engineId?: string;   // Engine used for a search
+}
+
+/**
+ * Blocklist source category (assigned per feed in scripts/update-blocklist.js)
+ */
+export interface BlocklistCategory {
+  id: string;
+  label: string;
+  description: string;
+  bypassable?: boolean;  // Blocks in this category may offer "Proceed anyway"
+}
+
+export const BLOCKLIST_CATEGORIES: BlocklistCategory[] = [
+  { id: 'adult', label: 'Adult Content', description: 'Pornography and explicit sexual content.', bypassable: true },
+  { id: 'gambling', label: 'Gambling', description: 'Casinos, sports betting and real-money gambling.', bypassable: true },
+  { id: 'malware', label: 'Malware', description: 'Sites that distribute malicious software.' },
+  { id: 'phishing', label: 'Phishing', description: 'Pages that impersonate trusted sites to steal credentials.' },
+  { id: 'disinformation', label: 'Disinformation', description: 'Sources known for fabricated or deceptive news.', bypassable: true },
+  { id: 'ads', label: 'Advertising', description: 'Ad servers and ad networks.', bypassable: true },
+  { id: 'trackers', label: 'Trackers', description: 'Analytics and cross-site tracking services.', bypassable: true },
+];
+
+/**
+ * User-managed Safe Browsing entries (per profile)
+ */
+export type UserListKind = 'block' | 'allow';
+export type UserListPatternType = 'domain' | 'wildcard' | 'url-prefix';
+
+export interface UserListEntry {
+  id: string;
+  pattern: string;                  // "example.com", "*.ads.example.com" or "https://example.com/path"
+  patternType: UserListPatternType;
+  reason: string;
+  addedAt: number;
+}
+
+export interface UserLists {
+  block: UserListEntry[];
+  allow: UserListEntry[];
+}
+
+/**
+ * A block the user reported as a mistake from the block page
+ */
+export interface BlockReport {
+  id: string;
+  url: string;
+  domain: string;
+  matchType: string;
+  matchedPattern: string;
+  sourceCategories?: string[];
+  browserMode: string;
+  blockedAt: string;    // ISO timestamp of the block
+  reportedAt: string;   // ISO timestamp of the report
+}
+
+// How long "Proceed anyway" unblocks a site in the tab
+export const BLOCK_BYPASS_DURATION = 15 * 60 * 1000; // 15 minutes
+
+/**
+ * Signed incremental blocklist updates fetched by the browser (see BlocklistUpdater)
+ */
+export interface BlocklistUpdateConfig {
+  endpoint: string;         // Base URL serving deltas/<version>.json
+  checkInterval: number;    // Time between update checks (ms)
+  initialDelay: number;     // First check after startup (ms)
+  requestTimeout: number;   // Per-request timeout (ms)
+  maxDeltasPerCheck: number; // Deltas applied in a row before waiting for the next check
+  trustedKeysFile: string;  // Public keys allowed to sign deltas
+  stateFile: string;        // Applied updates, relative to userData
+}
+
+export const DEFAULT_BLOCKLIST_UPDATE_CONFIG: BlocklistUpdateConfig = {
+  endpoint: 'https://jubileebrowser.com/blocklists',
+  checkInterval: 6 * 60 * 60 * 1000,       // 6 hours
+  initialDelay: 30 * 1000,                 // 30 seconds
+  requestTimeout: 15000,
+  maxDeltasPerCheck: 20,
+  trustedKeysFile: 'blocklist-update-keys.json',
+  stateFile: 'blocklist-updates.json',
+};
+
+/**
+ * Persisted block log (see BlockLogStore)
+ */
+export interface BlockLogConfig {
+  directory: string;        // Relative to the profile data directory
+  maxFileSize: number;      // Rotate the current file past this size (bytes)
+  maxFiles: number;         // Rotated files kept besides the current one
+  flushDelay: number;       // Batch appends for this long (ms)
+}
+
+export const DEFAULT_BLOCK_LOG_CONFIG: BlockLogConfig = {
+  directory: 'block-log',
+  maxFileSize: 1024 * 1024,               // 1 MB
+  maxFiles: 5,
+  flushDelay: 1000,                        // 1 second
+};
+
+/**
+ * Background tab hibernation (see TabHibernator)
+ */
+export interface TabHibernationConfig {
+  checkInterval: number;      // Time between checks (ms)
+  minBackgroundTime: number;  // Tabs are never discarded sooner after being deselected (ms)
+}
+
+export const DEFAULT_TAB_HIBERNATION_CONFIG: TabHibernationConfig = {
+  checkInterval: 60 * 1000,                // 1 minute
+  minBackgroundTime: 2 * 60 * 1000,        // 2 minutes
+};
+
+/**
+ * Tracking protection counters for one tab's current page
+ */
+export interface TrackingProtectionStats {
+  trackersBlocked: number;
+  cookiesBlocked: number;     // Cookie / Set-Cookie headers stripped
+  trackerDomains: string[];
 }
 
 // ============================================
@@ -324,6 +545,9 @@ export interface BrowserSettings {
     cookieBehavior: 'allow' | 'block-third-party' | 'block-all';
     trackingProtection: 'standard' | 'strict' | 'off';
     safeBrowsing: boolean;
+    blocklistCategories: Record<string, boolean>; // Category ID -> enabled; missing = enabled
+    blocklistUpdateUrl: string;   // Delta update endpoint; empty = DEFAULT_BLOCKLIST_UPDATE_CONFIG.endpoint
+    blockLogRetentionDays: number; // Blocked activity older than this is deleted
   };
 
   // Permissions (global defaults)
@@ -371,6 +595,9 @@ export interface BrowserSettings {
     spellcheck: boolean;
     hardwareAcceleration: boolean;
     backgroundApps: boolean;
+    hibernateTabs: boolean;          // Unload background tabs (see TabHibernator)
+    hibernateAfterMinutes: number;   // Idle time before a background tab is unloaded
+    hibernateMemoryLimitMB: number;  // Unload sooner when tab processes use more memory than this; 0 = no limit
   };
 }
 
@@ -411,6 +638,9 @@ export const DEFAULT_SETTINGS: BrowserSettings = {
     cookieBehavior: 'block-third-party',
     trackingProtection: 'standard',
     safeBrowsing: true,
+    blocklistCategories: {},
+    blocklistUpdateUrl: '',
+    blockLogRetentionDays: 30,
   },
   permissions: {
     camera: 'ask',
@@ -434,24 +664,28 @@ export const DEFAULT_SETTINGS: BrowserSettings = {
         name: 'Jubilee',
         urlTemplate: 'https://www.jubileeverse.com/search?q={searchTerms}',
         isDefault: true,
+        keyword: 'j',
       },
       {
         id: 'google',
         name: 'Google',
         urlTemplate: 'https://www.google.com/search?q={searchTerms}',
         isDefault: false,
+        keyword: 'g',
       },
       {
         id: 'bing',
         name: 'Bing',
         urlTemplate: 'https://www.bing.com/search?q={searchTerms}',
         isDefault: false,
+        keyword: 'b',
       },
       {
         id: 'duckduckgo',
         name: 'DuckDuckGo',
         urlTemplate: 'https://duckduckgo.com/?q={searchTerms}',
         isDefault: false,
+        keyword: 'ddg',
       },
     ],
     suggestionsEnabled: true,
@@ -473,6 +707,9 @@ export const DEFAULT_SETTINGS: BrowserSettings = {
     spellcheck: true,
     hardwareAcceleration: true,
     backgroundApps: false,
+    hibernateTabs: true,
+    hibernateAfterMinutes: 30,
+    hibernateMemoryLimitMB: 2048,
   },
 };
 
@@ -634,3 +871,74 @@ export const DEFAULT_IDENTITY_CONFIG: IdentityServiceConfig = {
   scopes: ['openid', 'profile', 'email', 'jubilee.services'],
   tokenRefreshThreshold: 5 * 60 * 1000,  // Refresh 5 minutes before expiry
 };
+
+// ============================================
+// WorldWideBibleWeb DNS Types
+// ============================================
+
+/**
+ * Where the InspireResolver looks up .inspire addresses
+ * Sources are queried in order; the built-in locations are the fallback.
+ */
+export interface InspireDnsConfig {
+  replicaFile: string;      // JSON export of DNS_ResolutionCache, relative to userData
+  endpoint: string;         // HTTP resolver endpoint (empty = disabled)
+  requestTimeout: number;   // HTTP lookup timeout (ms)
+  cacheFile: string;        // Per-profile resolution cache, relative to the profile directory
+  cacheTtl: number;         // Entries younger than this are served without revalidation (ms)
+  cacheMaxStale: number;    // Stale entries are served (and revalidated) until this age (ms)
+  cacheMaxEntries: number;  // Hosts kept in the resolution cache; the least recently used are evicted
+  publicHosts: string[];    // Public mirror hosts the HTTP endpoint is asked to reverse-resolve (subdomains included)
+  trustedKeysFile: string;  // Steward public keys for signed registrations
+  registrationsFile: string; // Accepted registrations, relative to the profile directory
+}
+
+/**
+ * Resolution cache statistics
+ */
+export interface InspireCacheStats {
+  entries: number;
+  hits: number;             // Fresh entries served
+  staleHits: number;        // Stale entries served while revalidating
+  misses: number;
+  revalidations: number;    // Background refreshes completed
+  hitRate: number;          // (hits + staleHits) / lookups, 0-1
+}
+
+/**
+ * Web space type from the "WebSpaceTypes" table
+ * Each type is reachable as {type}://{domain}.{type} and, when an
+ * abbreviation exists, as {abbrev}://{domain}.{abbrev}
+ */
+export interface WebSpaceType {
+  fullName: string;         // e.g., "church"
+  abbreviation?: string;    // Exactly 4 characters, e.g., "chur"
+  description?: string;
+}
+
+/**
+ * Web space types known to the browser without a DNS source
+ */
+export const DEFAULT_WEB_SPACE_TYPES: WebSpaceType[] = [
+  { fullName: 'inspire', abbreviation: 'insp', description: 'Inspirational content and spiritual resources' },
+  { fullName: 'church', abbreviation: 'chur', description: 'Church and congregation web spaces' },
+  { fullName: 'prophet', abbreviation: 'prop', description: 'Prophetic ministry content' },
+  { fullName: 'apostle', abbreviation: 'apos', description: 'Apostolic ministry and leadership content' },
+  { fullName: 'webspace', abbreviation: 'webs', description: 'General web spaces and community platforms' },
+];
+
+/**
+ * Default DNS configuration
+ */
+export const DEFAULT_INSPIRE_DNS_CONFIG: InspireDnsConfig = {
+  replicaFile: 'inspire-dns.json',
+  endpoint: '',
+  requestTimeout: 5000,
+  cacheFile: 'inspire-cache.json',
+  cacheTtl: 60 * 60 * 1000,               // 1 hour
+  cacheMaxStale: 7 * 24 * 60 * 60 * 1000, // 7 days
+  cacheMaxEntries: 1000,
+  publicHosts: ['worldwidebibleweb.com'],
+  trustedKeysFile: 'inspire-trusted-keys.json',
+  registrationsFile: 'inspire-registrations.json',
+};
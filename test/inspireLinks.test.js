@@ -0,0 +1,43 @@
+/**
+ * Hosted Link Cases
+ *
+ * Links in a proxied page -> links served to the tab, for src/main/inspireLinks.ts.
+ *
+ * Run with: npm test
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { rewriteHostedLinks } = require('../dist/main/inspireLinks');
+
+const PRIVATE_ORIGIN = 'inspire://home.inspire';
+
+const CASES = [
+  // Base URL with a path
+  ['https://www.worldwidebibleweb.com/inspire/home/', '<a href="https://www.worldwidebibleweb.com/inspire/home/guide">', '<a href="inspire://home.inspire/guide">'],
+  ['https://www.worldwidebibleweb.com/inspire/home/', '<a href="https://www.worldwidebibleweb.com/inspire/home">', '<a href="inspire://home.inspire">'],
+  ['https://www.worldwidebibleweb.com/inspire/home/', '<a href="https://www.worldwidebibleweb.com/inspire/home?tab=2#top">', '<a href="inspire://home.inspire?tab=2#top">'],
+  ['https://www.worldwidebibleweb.com/inspire/home/', '<a href="http://www.worldwidebibleweb.com/inspire/home/guide">', '<a href="inspire://home.inspire/guide">'],
+  ['https://www.worldwidebibleweb.com/inspire/home/', '<img src="//www.worldwidebibleweb.com/inspire/home/logo.png">', '<img src="inspire://home.inspire/logo.png">'],
+  ['https://www.worldwidebibleweb.com/inspire/home/', 'url(//www.worldwidebibleweb.com/inspire/home/font.woff)', 'url(inspire://home.inspire/font.woff)'],
+  ['https://www.worldwidebibleweb.com/inspire/home/', "fetch('https://www.worldwidebibleweb.com/inspire/home/api')", "fetch('inspire://home.inspire/api')"],
+
+  // Other pages on the same host keep their public URL
+  ['https://www.worldwidebibleweb.com/inspire/home/', '<a href="https://www.worldwidebibleweb.com/inspire/about/">', '<a href="https://www.worldwidebibleweb.com/inspire/about/">'],
+  ['https://www.worldwidebibleweb.com/inspire/home/', '<a href="https://www.worldwidebibleweb.com/inspire/homepage">', '<a href="https://www.worldwidebibleweb.com/inspire/homepage">'],
+  ['https://www.worldwidebibleweb.com/inspire/home/', '<a href="https://www.worldwidebibleweb.com/">', '<a href="https://www.worldwidebibleweb.com/">'],
+
+  // Base URL at the root of the host
+  ['https://grace.example.org', '<a href="https://grace.example.org/sermons">', '<a href="inspire://home.inspire/sermons">'],
+  ['https://grace.example.org', '<a href="https://grace.example.org">', '<a href="inspire://home.inspire">'],
+  ['https://grace.example.org', '<a href="https://grace.example.org.evil.net/">', '<a href="https://grace.example.org.evil.net/">'],
+  ['https://grace.example.org', '<a href="https://grace.example.org:8443/">', '<a href="https://grace.example.org:8443/">'],
+  ['https://grace.example.org', '<a href="ftp://grace.example.org/files">', '<a href="ftp://grace.example.org/files">'],
+  ['https://grace.example.org', '<a href="https://other.example.org/sermons">', '<a href="https://other.example.org/sermons">'],
+];
+
+for (const [base, input, expected] of CASES) {
+  test(`${base}: ${input}`, () => {
+    assert.equal(rewriteHostedLinks(input, base, PRIVATE_ORIGIN), expected);
+  });
+}
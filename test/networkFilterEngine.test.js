@@ -0,0 +1,115 @@
+/**
+ * Network Filter Cases
+ *
+ * Filter lists + request -> blocking filter (null = allowed), for src/main/networkFilterEngine.ts.
+ * Requests use Electron webRequest resource types; page is the first-party URL.
+ *
+ * Run with: npm test
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { NetworkFilterEngine } = require('../dist/main/networkFilterEngine');
+
+const PAGE = 'https://news.example.com/article';
+
+const CASES = [
+  // ||domain^ anchors
+  [['||ads.net^'], 'https://ads.net/pixel.gif', 'image', PAGE, '||ads.net^'],
+  [['||ads.net^'], 'https://cdn.ads.net/x.js', 'script', PAGE, '||ads.net^'],
+  [['||ads.net^'], 'https://ads.net:8080/x.js', 'script', PAGE, '||ads.net^'],
+  [['||ads.net^'], 'https://badads.net/x.js', 'script', PAGE, null],
+  [['||ads.net^'], 'https://ads.network.com/x.js', 'script', PAGE, null],
+  [['||ads.net/banner/'], 'https://ads.net/banner/1.png', 'image', PAGE, '||ads.net/banner/'],
+  [['||ads.net/banner/'], 'https://ads.net/logo.png', 'image', PAGE, null],
+
+  // ^ at the end matches a separator or the end of the URL
+  [['/track.js^'], 'https://cdn.net/track.js', 'script', PAGE, '/track.js^'],
+  [['/track.js^'], 'https://cdn.net/track.js?v=2', 'script', PAGE, '/track.js^'],
+  [['/track.js^'], 'https://cdn.net/track.json', 'script', PAGE, null],
+
+  // Start and end anchors, wildcards
+  [['|https://ads.'], 'https://ads.cdn.net/a.js', 'script', PAGE, '|https://ads.'],
+  [['|https://ads.'], 'https://cdn.net/?u=https://ads.x', 'script', PAGE, null],
+  [['.gif|'], 'https://cdn.net/a.gif', 'image', PAGE, '.gif|'],
+  [['.gif|'], 'https://cdn.net/a.gif?x=1', 'image', PAGE, null],
+  [['/banner/*/ad_'], 'https://cdn.net/banner/300x250/ad_1.png', 'image', PAGE, '/banner/*/ad_'],
+
+  // Filters without type options never block top-level pages
+  [['||ads.net^'], 'https://ads.net/', 'mainFrame', undefined, null],
+  [['||ads.net^$document'], 'https://ads.net/', 'mainFrame', undefined, '||ads.net^$document'],
+
+  // $third-party and $~third-party (first-party by registrable domain)
+  [['||tracker.com^$third-party'], 'https://tracker.com/t.js', 'script', PAGE, '||tracker.com^$third-party'],
+  [['||tracker.com^$third-party'], 'https://tracker.com/t.js', 'script', 'https://www.tracker.com/', null],
+  [['||example.com/ads/$~third-party'], 'https://static.example.com/ads/a.js', 'script', PAGE, '||example.com/ads/$~third-party'],
+  [['||static.example.com/ads/$~third-party'], 'https://static.example.com/ads/a.js', 'script', PAGE, '||static.example.com/ads/$~third-party'],
+  [['||static.example.com/ads/$~third-party'], 'https://static.example.com/ads/a.js', 'script', 'https://other.org/', null],
+  [['||cdn.net^$3p'], 'https://cdn.net/a.js', 'script', PAGE, '||cdn.net^$3p'],
+
+  // Resource types
+  [['||cdn.net^$script'], 'https://cdn.net/a.js', 'script', PAGE, '||cdn.net^$script'],
+  [['||cdn.net^$script'], 'https://cdn.net/a.png', 'image', PAGE, null],
+  [['||cdn.net^$~image'], 'https://cdn.net/a.png', 'image', PAGE, null],
+  [['||cdn.net^$xhr'], 'https://cdn.net/api', 'xhr', PAGE, '||cdn.net^$xhr'],
+  [['||cdn.net^$subdocument'], 'https://cdn.net/frame', 'subFrame', PAGE, '||cdn.net^$subdocument'],
+
+  // $domain= (first-party page)
+  [['||cdn.net^$domain=example.com'], 'https://cdn.net/a.js', 'script', PAGE, '||cdn.net^$domain=example.com'],
+  [['||cdn.net^$domain=example.com'], 'https://cdn.net/a.js', 'script', 'https://other.org/', null],
+  [['||cdn.net^$domain=~news.example.com'], 'https://cdn.net/a.js', 'script', PAGE, null],
+  [['||cdn.net^$domain=~news.example.com'], 'https://cdn.net/a.js', 'script', 'https://other.org/', '||cdn.net^$domain=~news.example.com'],
+  [['||cdn.net^$domain=a.org|example.com'], 'https://cdn.net/a.js', 'script', PAGE, '||cdn.net^$domain=a.org|example.com'],
+
+  // @@ exceptions
+  [['||ads.net^', '@@||ads.net/allowed/'], 'https://ads.net/allowed/a.js', 'script', PAGE, null],
+  [['||ads.net^', '@@||ads.net/allowed/'], 'https://ads.net/other/a.js', 'script', PAGE, '||ads.net^'],
+  [['||ads.net^', '@@||ads.net^$image'], 'https://ads.net/a.png', 'image', PAGE, null],
+  [['||ads.net^', '@@||ads.net^$image'], 'https://ads.net/a.js', 'script', PAGE, '||ads.net^'],
+
+  // @@...$document allows every request made by that page
+  [['||ads.net^', '@@||news.example.com^$document'], 'https://ads.net/a.js', 'script', PAGE, null],
+  [['||ads.net^', '@@||news.example.com^$document'], 'https://ads.net/a.js', 'script', 'https://other.org/', '||ads.net^'],
+  [['||ads.net^', '@@||example.com^$document'], 'https://ads.net/a.js', 'script', PAGE, null],
+
+  // Unsupported filters are skipped rather than over-blocking
+  [['||ads.net^$popup'], 'https://ads.net/a.js', 'script', PAGE, null],
+  [['||ads.net^$csp=script-src none'], 'https://ads.net/a.js', 'script', PAGE, null],
+  [['||ads.net^$redirect=noopjs'], 'https://ads.net/a.js', 'script', PAGE, null],
+  [['/ads[0-9]+/'], 'https://cdn.net/ads1.js', 'script', PAGE, null],
+  [['example.com##.ad-banner'], 'https://example.com/.ad-banner', 'script', PAGE, null],
+  [['||ads.net^$match-case'], 'https://ads.net/a.js', 'script', PAGE, '||ads.net^$match-case'],
+
+  // Token index: filters are found by a literal token, including partial words at unanchored edges
+  [['/ads/banner.'], 'https://cdn.net/ads/banner.png', 'image', PAGE, '/ads/banner.'],
+  [['-ad-box-'], 'https://cdn.net/top-ad-box-1.png', 'image', PAGE, '-ad-box-'],
+  [['adbanner'], 'https://cdn.net/img/bigadbanners.png', 'image', PAGE, 'adbanner'],
+  [['*/pixel/*'], 'https://cdn.net/v1/pixel/x.gif', 'image', PAGE, '*/pixel/*'],
+  [['/ads/banner.', '||other.net^', 'tracker*'], 'https://cdn.net/js/trackerlib.js', 'script', PAGE, 'tracker*'],
+  [['/ads/banner.'], 'https://cdn.net/adsbanner.png', 'image', PAGE, null],
+];
+
+for (const [filters, url, resourceType, firstPartyUrl, expected] of CASES) {
+  test(`${filters.join(' ')}: ${resourceType} ${url} -> ${expected ?? 'allowed'}`, () => {
+    const engine = new NetworkFilterEngine();
+    filters.forEach((filter) => engine.add(filter));
+    const match = engine.match({ url, resourceType, firstPartyUrl });
+    assert.equal(match ? match.filter.raw : null, expected);
+  });
+}
+
+test('skipped filters are not added', () => {
+  const engine = new NetworkFilterEngine();
+  const added = [
+    '! comment',
+    '[Adblock Plus 2.0]',
+    'example.com##.ad',
+    '||ads.net^$popup',
+    '/ads[0-9]+/',
+    '||ads.net^',
+    '@@||ads.net/ok/',
+    '@@||example.com^$document',
+  ].map((line) => engine.add(line));
+  assert.deepEqual(added, [false, false, false, false, false, true, true, true]);
+  assert.equal(engine.size, 3);
+});
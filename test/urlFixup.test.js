@@ -0,0 +1,87 @@
+/**
+ * URL Fixup Cases
+ *
+ * Address bar input -> URL to load (null = searched), for src/main/urlFixup.ts.
+ * Keep in sync with the table in docs/address-bar.md.
+ *
+ * Run with: npm test
+ */
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const os = require('os');
+const { fixupUrl } = require('../dist/main/urlFixup');
+
+const WEB_SPACE_SCHEMES = ['inspire', 'insp', 'church'];
+
+const CASES = [
+  // Hosts
+  ['example.com', 'https://example.com/'],
+  ['Example.COM/Path', 'https://example.com/Path'],
+  ['www.example.com?q=1', 'https://www.example.com/?q=1'],
+  ['//example.com/x', 'https://example.com/x'],
+  ['bbc.co.uk', 'https://bbc.co.uk/'],
+  ['sap.de', 'https://sap.de/'],
+  ['github.io', 'https://github.io/'],
+  ['me.github.io', 'https://me.github.io/'],
+  ['grace.church', 'https://grace.church/'],
+  ['bücher.de', 'https://xn--bcher-kva.de/'],
+  ['co.uk', null],
+  ['com', null],
+  ['example.newtld', null],
+  ['example.newtld/', 'https://example.newtld/'],
+  ['john.3', null],
+  ['node.js', null],
+  ['3.14', null],
+  ['me@example.com', null],
+  ['john 3:16', null],
+
+  // Host and port
+  ['localhost:3000', 'http://localhost:3000/'],
+  ['localhost', 'http://localhost/'],
+  ['app.localhost:5173/', 'http://app.localhost:5173/'],
+  ['example.com:8080/path', 'http://example.com:8080/path'],
+  ['example.com:443', 'https://example.com/'],
+  ['example.com:0', null],
+  ['example.com:99999', null],
+
+  // IPv4 and IPv6
+  ['192.168.1.1', 'http://192.168.1.1/'],
+  ['10.0.0.1:8080/admin', 'http://10.0.0.1:8080/admin'],
+  ['999.1.1.1', null],
+  ['[::1]:8080', 'http://[::1]:8080/'],
+  ['::1', 'http://[::1]/'],
+  ['fe80::1/status', 'http://[fe80::1]/status'],
+  ['[not-an-ip]', null],
+
+  // Intranet and local-network names
+  ['intranet/page', 'http://intranet/page'],
+  ['intranet', null],
+  ['devbox:8080', 'http://devbox:8080/'],
+  ['nas.local', 'http://nas.local/'],
+  ['router.lan/admin', 'http://router.lan/admin'],
+  ['app.test', 'http://app.test/'],
+
+  // File paths
+  ['C:\\Users\\me\\My Page.html', 'file:///C:/Users/me/My%20Page.html'],
+  ['\\\\server\\share\\a.html', 'file://server/share/a.html'],
+  ['/home/me/a b.html', 'file:///home/me/a%20b.html'],
+  ['/tmp/what?#.html', 'file:///tmp/what%3F%23.html'],
+  ['~/page.html', new URL(`file://${os.homedir().replace(/\\/g, '/').replace(/^(?!\/)/, '/')}/page.html`).href],
+
+  // Schemes
+  ['https://example.com', 'https://example.com/'],
+  ['http:example.com', 'http://example.com/'],
+  ['jubilee://settings', 'jubilee://settings'],
+  ['inspire://home.inspire', 'inspire://home.inspire'],
+  ['insp://home.insp/guide', 'insp://home.insp/guide'],
+  ['javascript:alert(1)', null],
+  ['mailto:a@b.com', null],
+  ['https://', null],
+];
+
+for (const [input, expected] of CASES) {
+  test(`${JSON.stringify(input)} -> ${expected ?? 'search'}`, () => {
+    assert.equal(fixupUrl(input, WEB_SPACE_SCHEMES), expected);
+  });
+}